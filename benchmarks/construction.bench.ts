@@ -0,0 +1,84 @@
+/**
+ * Construction benchmark - time to build a PermissionService for N modules.
+ *
+ * Compares the current closure build against the legacy Floyd-Warshall pass
+ * (kept here as a reference implementation) on the same direct-grant graph.
+ *
+ * Usage:
+ *   npm run bench                         # Floyd-Warshall at every size (about 2 minutes at 1,000 modules)
+ *   BENCH_LEGACY_MAX=200 npm run bench    # skip Floyd-Warshall above 200 modules
+ */
+
+import { PermissionService } from '../src';
+import { PermissionGraph, RBACConfig } from '../src/types';
+
+const SIZES = [50, 100, 200, 500, 1000];
+const LEGACY_MAX = Number(process.env.BENCH_LEGACY_MAX ?? 1000);
+
+function makeConfig(moduleCount: number): RBACConfig {
+  const modules: Record<string, string[]> = {};
+  for (let i = 0; i < moduleCount; i++) {
+    modules[`module${i}`] = ['profile', 'settings', 'reports'];
+  }
+
+  return {
+    modules,
+    roles: {
+      viewer: { id: 'viewer', name: 'Viewer', permissions: ['*:read'] },
+      editor: { id: 'editor', name: 'Editor', permissions: ['*:update'], inherits: ['viewer'] },
+      admin: { id: 'admin', name: 'Admin', permissions: ['*:delete'], inherits: ['editor'] }
+    }
+  };
+}
+
+/**
+ * The pre-existing Floyd-Warshall closure, verbatim apart from taking its inputs as arguments.
+ */
+function legacyFloydWarshall(graph: PermissionGraph, permissions: Set<string>): void {
+  const allPermissions = Array.from(permissions);
+
+  for (const k of allPermissions) {
+    for (const i of allPermissions) {
+      if (graph.grants.get(i)?.has(k)) {
+        for (const j of allPermissions) {
+          if (graph.grants.get(k)?.has(j)) {
+            graph.grants.get(i)?.add(j);
+            graph.grantedBy.get(j)?.add(i);
+          }
+        }
+      }
+    }
+  }
+}
+
+function time(fn: () => void): number {
+  const start = process.hrtime.bigint();
+  fn();
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+function main(): void {
+  console.log('modules | permissions | closure build (ms) | Floyd-Warshall (ms)');
+  console.log('------- | ----------- | ------------------ | -------------------');
+
+  for (const size of SIZES) {
+    const config = makeConfig(size);
+
+    let service!: PermissionService;
+    const current = time(() => {
+      service = new PermissionService(config);
+    });
+
+    let legacy = '(skipped)';
+    if (size <= LEGACY_MAX) {
+      // Reuse the service's own graph builder so both passes close the same direct graph.
+      const { allPermissions } = service['policy'];
+      const direct: PermissionGraph = service['buildPermissionGraph'](config, allPermissions);
+      legacy = time(() => legacyFloydWarshall(direct, allPermissions)).toFixed(1);
+    }
+
+    console.log(`${size} | ${service.getStats().totalPermissions} | ${current.toFixed(1)} | ${legacy}`);
+  }
+}
+
+main();
@@ -0,0 +1,60 @@
+#!/usr/bin/env node
+/**
+ * authz-policy-test - run policy test suites (see core/policy.suite)
+ *   authz-policy-test <suite.yaml|suite.json>... [--config <rbac config>]
+ * --config overrides the config named in each suite. Exits with 1 if any case fails.
+ */
+
+import { PermissionService } from './core/permission.service';
+import { formatPolicyTestReport, loadPolicyConfig, loadPolicyTestSuite, runPolicyTests } from './core/policy.suite';
+import { PolicyTestReport } from './types';
+
+const USAGE = 'Usage: authz-policy-test <suite.yaml|suite.json>... [--config <rbac config>]';
+
+/**
+ * Run the CLI with the given arguments. Returns the exit code.
+ */
+export function main(args: string[], write: (text: string) => void = text => console.log(text)): number {
+  const suites: string[] = [];
+  let configPath: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--config') configPath = args[++i];
+    else suites.push(args[i]);
+  }
+  if (suites.length === 0 || args[args.length - 1] === '--config') {
+    write(USAGE);
+    return 2;
+  }
+
+  // One service per config, shared by the suites that test it
+  const services = new Map<string, PermissionService>();
+  const total: PolicyTestReport = { passed: 0, failed: 0, results: [] };
+  try {
+    suites.forEach(path => {
+      const suite = loadPolicyTestSuite(path);
+      const config = configPath ?? suite.config;
+      if (!config) throw new Error(`Policy test suite '${path}' names no config. Set config in the suite or pass --config.`);
+
+      let service = services.get(config);
+      if (!service) {
+        const loaded = loadPolicyConfig(config);
+        service = new PermissionService(loaded.config, loaded.options);
+        services.set(config, service);
+      }
+      const report = runPolicyTests(service, suite.cases);
+      total.passed += report.passed;
+      total.failed += report.failed;
+      total.results.push(...report.results);
+    });
+  } catch (error) {
+    write(error instanceof Error ? error.message : String(error));
+    return 2;
+  }
+
+  write(formatPolicyTestReport(total));
+  return total.failed > 0 ? 1 : 0;
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
@@ -0,0 +1,129 @@
+/**
+ * Assignment Store - subjects (users, groups, service accounts) and their roles
+ * PermissionService.check() resolves a subject ID through its store into the
+ * roles and permissions it holds, directly and through its groups.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { AssignmentStoreAdapter, Subject } from '../types';
+import { ParsedWindow, parseWindow, WindowState, windowState } from '../utils/validity.window';
+
+/**
+ * Default AssignmentStoreAdapter: subjects kept in memory.
+ */
+export class InMemoryAssignmentStore implements AssignmentStoreAdapter {
+  protected readonly subjects = new Map<string, Subject>();
+
+  constructor(subjects: Subject[] = []) {
+    subjects.forEach(subject => this.subjects.set(subject.id, subject));
+  }
+
+  get(id: string): Subject | undefined {
+    return this.subjects.get(id);
+  }
+
+  put(subject: Subject): void {
+    this.subjects.set(subject.id, subject);
+  }
+
+  delete(id: string): void {
+    this.subjects.delete(id);
+  }
+
+  list(): Subject[] {
+    return Array.from(this.subjects.values());
+  }
+}
+
+/**
+ * Subjects persisted to a JSON file ({ "subjects": [...] }). The file is read once on
+ * construction and rewritten (via a temporary file and rename) after every change.
+ * A missing file starts an empty store.
+ */
+export class JsonFileAssignmentStore extends InMemoryAssignmentStore {
+  constructor(private readonly path: string) {
+    super(JsonFileAssignmentStore.load(path));
+  }
+
+  put(subject: Subject): void {
+    super.put(subject);
+    this.save();
+  }
+
+  delete(id: string): void {
+    super.delete(id);
+    this.save();
+  }
+
+  private save(): void {
+    const temporary = `${this.path}.tmp`;
+    writeFileSync(temporary, JSON.stringify({ subjects: this.list() }, null, 2));
+    renameSync(temporary, this.path);
+  }
+
+  private static load(path: string): Subject[] {
+    if (!existsSync(path)) return [];
+    const data = JSON.parse(readFileSync(path, 'utf8'));
+    if (!data || !Array.isArray(data.subjects)) {
+      throw new Error(`Invalid assignment file '${path}'. Expected { "subjects": [...] }.`);
+    }
+    return data.subjects;
+  }
+}
+
+// A role assignment outside its validity window at resolution time
+export type InactiveAssignment = {
+  subjectId: string;
+  role: string;
+  state: Exclude<WindowState, 'active'>;
+  window: ParsedWindow;
+};
+
+/**
+ * The role IDs and direct permissions of `subjectId` and every group it belongs to
+ * (listed in `groups`), transitively, at time `at`. Role assignments outside their
+ * window are returned separately as `inactive`. Unknown subjects and groups contribute
+ * nothing; group cycles are cut off.
+ */
+export function resolveAssignments(
+  store: Pick<AssignmentStoreAdapter, 'get'>,
+  subjectId: string,
+  at: number = Date.now()
+): {
+  roles: Set<string>;
+  permissions: Set<string>;
+  inactive: InactiveAssignment[];
+  groups: Set<string>;
+} {
+  const roles = new Set<string>();
+  const permissions = new Set<string>();
+  const inactive: InactiveAssignment[] = [];
+  const visited = new Set<string>();
+
+  const visit = (id: string) => {
+    if (visited.has(id)) return;
+    visited.add(id);
+    const subject = store.get(id);
+    if (!subject) return;
+
+    subject.roles?.forEach(assignment => {
+      if (typeof assignment === 'string') {
+        roles.add(assignment);
+        return;
+      }
+      const window = parseWindow(assignment, `role assignment '${assignment.role}' of subject '${id}'`);
+      const state = windowState(window, at);
+      if (state === 'active') {
+        roles.add(assignment.role);
+      } else {
+        inactive.push({ subjectId: id, role: assignment.role, state, window: window! });
+      }
+    });
+    subject.permissions?.forEach(permission => permissions.add(permission));
+    subject.groups?.forEach(visit);
+  };
+
+  visit(subjectId);
+  visited.delete(subjectId);
+  return { roles, permissions, inactive, groups: visited };
+}
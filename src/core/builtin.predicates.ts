@@ -0,0 +1,158 @@
+/**
+ * Built-in Predicates - parameterized predicates for common ABAC conditions
+ * Register them in PermissionServiceOptions.predicates, under their own names or any other:
+ *
+ *   new PermissionService(config, { predicates: { ...BUILTIN_PREDICATES } });
+ *   { permission: 'admin:read', when: { name: 'ipInCidr', args: { cidrs: ['10.0.0.0/8'] } } }
+ */
+
+import { EnrichedContext, ParameterizedPredicate } from '../types';
+import { CidrRange, cidrContains, parseCidr } from '../utils/cidr';
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * The resource's `field` (default "ownerId") equals the user's ID.
+ */
+const owner: ParameterizedPredicate = {
+  args: { field: { type: 'string', default: 'ownerId' } },
+  evaluate: (ctx, args) => !!ctx.userId && readField(ctx.resource, args.field as string) === ctx.userId
+};
+
+/**
+ * The resource's `field` (default "organizationId") equals the context's organization.
+ */
+const sameOrganization: ParameterizedPredicate = {
+  args: { field: { type: 'string', default: 'organizationId' } },
+  evaluate: (ctx, args) =>
+    !!ctx.organizationId && readField(ctx.resource, args.field as string) === ctx.organizationId
+};
+
+// Parsed ranges per `cidrs` argument array (arguments come from the config and are reused)
+const parsedRanges = new WeakMap<string[], CidrRange[]>();
+
+/**
+ * The request IP is inside any of `cidrs` (IPv4 or IPv6).
+ */
+const ipInCidr: ParameterizedPredicate = {
+  args: {
+    cidrs: {
+      type: 'string[]',
+      validate: value => {
+        const invalid = (value as string[]).find(cidr => !parseCidr(cidr));
+        return invalid === undefined ? undefined : `contains invalid CIDR '${invalid}'`;
+      }
+    }
+  },
+  evaluate: (ctx, args) => {
+    if (!ctx.ip) return false;
+    const cidrs = args.cidrs as string[];
+    let ranges = parsedRanges.get(cidrs);
+    if (!ranges) {
+      ranges = cidrs.map(cidr => parseCidr(cidr)!);
+      parsedRanges.set(cidrs, ranges);
+    }
+    return ranges.some(range => cidrContains(range, ctx.ip!));
+  }
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * The request time (`timestamp`, or now) falls in [from, to) hours in time zone `tz`
+ * (default UTC), optionally only on `days`. Hours may be fractional (9.5 = 09:30).
+ * A window with from > to wraps past midnight; from == to matches nothing.
+ */
+const timeWindow: ParameterizedPredicate = {
+  args: {
+    from: { type: 'number', min: 0, max: 24 },
+    to: { type: 'number', min: 0, max: 24 },
+    tz: {
+      type: 'string',
+      default: 'UTC',
+      validate: value => (formatterFor(value as string) ? undefined : `is not a known time zone '${value}'`)
+    },
+    days: { type: 'string[]', optional: true, enum: WEEKDAYS }
+  },
+  evaluate: (ctx, args) => {
+    const formatter = formatterFor(args.tz as string);
+    if (!formatter) return false;
+
+    const parts = formatter.formatToParts(ctx.timestamp ?? new Date());
+    const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+    const hour = Number(part('hour')) + Number(part('minute')) / 60;
+    const day = part('weekday').slice(0, 3).toLowerCase();
+
+    const days = args.days as string[] | undefined;
+    if (days && !days.includes(day)) return false;
+
+    const from = args.from as number;
+    const to = args.to as number;
+    return from <= to ? hour >= from && hour < to : hour >= from || hour < to;
+  }
+};
+
+/**
+ * The request method is one of `methods` (case-insensitive).
+ */
+const httpMethod: ParameterizedPredicate = {
+  args: { methods: { type: 'string[]' } },
+  evaluate: (ctx, args) => {
+    const method = ctx.method?.toUpperCase();
+    return !!method && (args.methods as string[]).some(m => m.toUpperCase() === method);
+  }
+};
+
+/**
+ * The metadata attribute at `key` (dotted paths reach nested objects) equals `value`.
+ */
+const metadataEquals: ParameterizedPredicate = {
+  args: {
+    key: { type: 'string' },
+    value: {
+      type: 'any',
+      validate: value =>
+        ['string', 'number', 'boolean'].includes(typeof value) ? undefined : 'must be a string, number or boolean'
+    }
+  },
+  evaluate: (ctx: EnrichedContext, args) => {
+    const actual = (args.key as string)
+      .split('.')
+      .reduce<unknown>((current, segment) => readField(current, segment), ctx.metadata);
+    return actual !== undefined && actual === args.value;
+  }
+};
+
+export const BUILTIN_PREDICATES: Record<string, ParameterizedPredicate> = {
+  owner,
+  sameOrganization,
+  ipInCidr,
+  timeWindow,
+  httpMethod,
+  metadataEquals
+};
+
+function readField(value: unknown, field: string): unknown {
+  if (value === null || typeof value !== 'object') return undefined;
+  if (!Object.prototype.hasOwnProperty.call(value, field)) return undefined;
+  return (value as Record<string, unknown>)[field];
+}
+
+function formatterFor(tz: string): Intl.DateTimeFormat | undefined {
+  let formatter = formatters.get(tz);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: tz,
+        hourCycle: 'h23',
+        weekday: 'short',
+        hour: 'numeric',
+        minute: 'numeric'
+      });
+    } catch {
+      return undefined;
+    }
+    formatters.set(tz, formatter);
+  }
+  return formatter;
+}
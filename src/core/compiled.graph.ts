@@ -0,0 +1,364 @@
+/**
+ * Compiled Graph - interned, bitset-backed transitive closure
+ * Permission strings are interned to dense integer IDs and each node's closure row is
+ * stored as a bitset over those IDs, so lookups are a word read instead of string hashing.
+ */
+
+/**
+ * A closure row: bits [offset * 32, (offset + words.length) * 32) of the full ID space.
+ * Rows only span the IDs they actually reach, so the many narrow rows (a resource's
+ * actions, a module's resources) stay a few words wide.
+ */
+interface BitRow {
+  offset: number;
+  words: Uint32Array;
+}
+
+function popcount(word: number): number {
+  let v = word - ((word >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+/**
+ * Plain representation of a CompiledGraph: interned names in ID order (null for nodes
+ * retired by an update), plus every non-empty closure row.
+ */
+export interface SerializedGraph {
+  nodes: (string | null)[];
+  rows: { id: number; offset: number; words: Uint32Array }[];
+}
+
+export class CompiledGraph {
+  // Live nodes only: nodes retired by an update keep their ID and name, but not an entry here
+  private readonly ids = new Map<string, number>();
+  // '' for nodes retired before the graph was serialized
+  private readonly names: string[] = [];
+  private rows: (BitRow | undefined)[] = [];
+  // Direct grants by ID, kept so later updates can tell which rows changed.
+  // Absent on graphs loaded from a snapshot.
+  private adjacency?: number[][];
+
+  /**
+   * Intern every node and compute the closure of a direct-grant adjacency map.
+   * Only `nodes` are closed: other grantors in the direct graph (such as the internal
+   * "*:*") keep just their direct grants, and the closure never passes through them.
+   * The direct graph must be acyclic.
+   */
+  static fromDirectGraph(nodes: Iterable<string>, direct: Map<string, Set<string>>): CompiledGraph {
+    const graph = new CompiledGraph();
+    const members = new Set(nodes);
+    graph.adjacency = graph.internDirectGraph(members, direct);
+    graph.rows = new Array(graph.names.length);
+    graph.closeRows(new Uint8Array(graph.names.length), graph.closedIds(members));
+    return graph;
+  }
+
+  /**
+   * Rebuild a graph from serialize() output without recomputing the closure.
+   */
+  static deserialize(data: SerializedGraph): CompiledGraph {
+    const graph = new CompiledGraph();
+    data.nodes.forEach(node => {
+      if (node === null) graph.names.push('');
+      else if (graph.ids.has(node)) throw new Error('Corrupt compiled graph: duplicate node names.');
+      else graph.intern(node);
+    });
+    graph.rows = new Array(graph.names.length);
+    data.rows.forEach(({ id, offset, words }) => {
+      if (id >= graph.names.length || offset + words.length > ((graph.names.length + 31) >>> 5)) {
+        throw new Error(`Corrupt compiled graph: row ${id} is out of range.`);
+      }
+      graph.rows[id] = { offset, words };
+    });
+    return graph;
+  }
+
+  /**
+   * Compile a new direct graph, reusing every row that cannot have changed.
+   * IDs are stable: existing nodes keep theirs and new nodes are appended. Nodes no longer
+   * referenced are retired: they keep their ID (and get it back if they return), but
+   * idOf() and the name lookups no longer find them, as in a freshly built graph.
+   * Only nodes whose direct grants changed, plus every node that previously reached one
+   * of them, are recomputed; other rows are shared with this graph. As in fromDirectGraph(),
+   * only `nodes` are closed.
+   * The direct graph must be acyclic.
+   */
+  update(nodes: Iterable<string>, direct: Map<string, Set<string>>): CompiledGraph {
+    const graph = new CompiledGraph();
+    this.names.forEach((name, id) => {
+      graph.names.push(name);
+      if (name) graph.ids.set(name, id);
+    });
+    const live = new Set(nodes);
+    graph.adjacency = graph.internDirectGraph(live, direct);
+    const closed = graph.closedIds(live);
+    direct.forEach((targets, grantor) => {
+      live.add(grantor);
+      targets.forEach(target => live.add(target));
+    });
+    graph.ids.forEach((_, name) => {
+      if (!live.has(name)) graph.ids.delete(name);
+    });
+
+    const previous = this.adjacency;
+    const done = new Uint8Array(graph.names.length);
+    graph.rows = new Array(graph.names.length);
+    if (previous) {
+      const changed: number[] = [];
+      graph.adjacency.forEach((targets, id) => {
+        const before = previous[id] ?? [];
+        const same = before.length === targets.length && (targets.length === 0 || sameMembers(before, targets));
+        if (!same) changed.push(id);
+      });
+
+      const affected = new Set<number>(changed);
+      this.grantorsOfAny(changed.filter(id => id < this.names.length)).forEach(id => affected.add(id));
+      for (let id = 0; id < this.rows.length; id++) {
+        if (affected.has(id)) continue;
+        graph.rows[id] = this.rows[id];
+        done[id] = 1;
+      }
+    }
+
+    graph.closeRows(done, closed);
+    return graph;
+  }
+
+  serialize(): SerializedGraph {
+    const rows: SerializedGraph['rows'] = [];
+    this.rows.forEach((row, id) => {
+      if (row) rows.push({ id, offset: row.offset, words: row.words });
+    });
+    return { nodes: this.names.map((name, id) => (this.ids.get(name) === id ? name : null)), rows };
+  }
+
+  /**
+   * Number of interned nodes
+   */
+  get size(): number {
+    return this.names.length;
+  }
+
+  idOf(name: string): number | undefined {
+    return this.ids.get(name);
+  }
+
+  nameOf(id: number): string {
+    return this.names[id];
+  }
+
+  /**
+   * Does `grantor` transitively grant `grantee`? (A node never grants itself.)
+   */
+  grants(grantor: number, grantee: number): boolean {
+    const row = this.rows[grantor];
+    if (!row) return false;
+    const word = (grantee >>> 5) - row.offset;
+    if (word < 0 || word >= row.words.length) return false;
+    return (row.words[word] & (1 << (grantee & 31))) !== 0;
+  }
+
+  /**
+   * Visit every node transitively granted by `grantor`, in ID order.
+   */
+  forEachGranted(grantor: number, visit: (id: number) => void): void {
+    const row = this.rows[grantor];
+    if (!row) return;
+    for (let w = 0; w < row.words.length; w++) {
+      let bits = row.words[w];
+      while (bits !== 0) {
+        const low = bits & -bits;
+        visit(((row.offset + w) << 5) + (31 - Math.clz32(low)));
+        bits ^= low;
+      }
+    }
+  }
+
+  /**
+   * Names of every node transitively granted by `grantor`.
+   */
+  granted(grantor: string): Set<string> {
+    const result = new Set<string>();
+    const id = this.ids.get(grantor);
+    if (id !== undefined) this.forEachGranted(id, n => result.add(this.names[n]));
+    return result;
+  }
+
+  /**
+   * Names of every node that transitively grants `grantee`.
+   * Column lookups scan every row; they serve debugging and compile-time queries only.
+   */
+  grantors(grantee: string): Set<string> {
+    const result = new Set<string>();
+    const id = this.ids.get(grantee);
+    if (id === undefined) return result;
+    for (let n = 0; n < this.rows.length; n++) {
+      if (this.grants(n, id)) result.add(this.names[n]);
+    }
+    return result;
+  }
+
+  /**
+   * IDs of every node that grants at least one of `targets`.
+   */
+  grantorsOfAny(targets: number[]): number[] {
+    const mask = new Uint32Array((this.names.length + 31) >>> 5);
+    targets.forEach(t => { mask[t >>> 5] |= 1 << (t & 31); });
+
+    const result: number[] = [];
+    for (let n = 0; n < this.rows.length; n++) {
+      const row = this.rows[n];
+      if (!row) continue;
+      for (let w = 0; w < row.words.length; w++) {
+        if ((row.words[w] & mask[row.offset + w]) !== 0) {
+          result.push(n);
+          break;
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Union the given nodes and everything they grant into one set of names.
+   * Rows are OR-ed into a single scratch bitset, so only the result is materialized.
+   */
+  collect(ids: Iterable<number>): Set<string> {
+    const acc = new Uint32Array((this.names.length + 31) >>> 5);
+    for (const id of ids) {
+      acc[id >>> 5] |= 1 << (id & 31);
+      const row = this.rows[id];
+      if (!row) continue;
+      for (let w = 0; w < row.words.length; w++) acc[row.offset + w] |= row.words[w];
+    }
+
+    const result = new Set<string>();
+    for (let w = 0; w < acc.length; w++) {
+      let bits = acc[w];
+      while (bits !== 0) {
+        const low = bits & -bits;
+        result.add(this.names[(w << 5) + (31 - Math.clz32(low))]);
+        bits ^= low;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Number of closure edges leaving `grantor`
+   */
+  rowSize(grantor: number): number {
+    const row = this.rows[grantor];
+    if (!row) return 0;
+    let count = 0;
+    for (let w = 0; w < row.words.length; w++) count += popcount(row.words[w]);
+    return count;
+  }
+
+  /**
+   * Total number of closure edges
+   */
+  edgeCount(): number {
+    let count = 0;
+    for (let n = 0; n < this.rows.length; n++) count += this.rowSize(n);
+    return count;
+  }
+
+  /**
+   * Intern nodes and grant targets, returning the direct adjacency by ID.
+   */
+  private internDirectGraph(nodes: Iterable<string>, direct: Map<string, Set<string>>): number[][] {
+    for (const node of nodes) this.intern(node);
+    direct.forEach((targets, grantor) => {
+      this.intern(grantor);
+      targets.forEach(target => this.intern(target));
+    });
+
+    const adjacency: number[][] = this.names.map(() => []);
+    direct.forEach((targets, grantor) => {
+      const from = this.ids.get(grantor)!;
+      targets.forEach(target => adjacency[from].push(this.ids.get(target)!));
+    });
+    return adjacency;
+  }
+
+  private intern(name: string): number {
+    let id = this.ids.get(name);
+    if (id === undefined) {
+      id = this.names.length;
+      this.ids.set(name, id);
+      this.names.push(name);
+    }
+    return id;
+  }
+
+  private closedIds(nodes: Set<string>): Uint8Array {
+    const closed = new Uint8Array(this.names.length);
+    nodes.forEach(node => { closed[this.ids.get(node)!] = 1; });
+    return closed;
+  }
+
+  /**
+   * Fill closure rows in DFS post-order: a node's row is the OR of its children and their rows.
+   * Nodes flagged in `done` already hold a final row and are not revisited. Nodes not
+   * flagged in `closed` get only their direct children, and pass none of their row on.
+   */
+  private closeRows(done: Uint8Array, closed: Uint8Array): void {
+    const adjacency = this.adjacency!;
+
+    for (let root = 0; root < adjacency.length; root++) {
+      if (done[root]) continue;
+
+      // Iterative DFS so deep role chains cannot overflow the call stack.
+      const stack: { node: number; next: number }[] = [{ node: root, next: 0 }];
+      while (stack.length > 0) {
+        const frame = stack[stack.length - 1];
+        const children = adjacency[frame.node];
+        if (frame.next < children.length) {
+          const child = children[frame.next++];
+          if (!done[child]) stack.push({ node: child, next: 0 });
+          continue;
+        }
+
+        stack.pop();
+        this.rows[frame.node] = this.buildRow(children, closed[frame.node] ? closed : undefined);
+        done[frame.node] = 1;
+      }
+    }
+  }
+
+  /**
+   * A row of `children` plus the rows of those flagged in `closed` (direct children only
+   * without `closed`).
+   */
+  private buildRow(children: number[], closed?: Uint8Array): BitRow | undefined {
+    if (children.length === 0) return undefined;
+
+    let lo = Infinity;
+    let hi = -Infinity;
+    for (const child of children) {
+      lo = Math.min(lo, child >>> 5);
+      hi = Math.max(hi, child >>> 5);
+      const row = closed?.[child] ? this.rows[child] : undefined;
+      if (row) {
+        lo = Math.min(lo, row.offset);
+        hi = Math.max(hi, row.offset + row.words.length - 1);
+      }
+    }
+
+    const words = new Uint32Array(hi - lo + 1);
+    for (const child of children) {
+      words[(child >>> 5) - lo] |= 1 << (child & 31);
+      const row = closed?.[child] ? this.rows[child] : undefined;
+      if (!row) continue;
+      for (let w = 0; w < row.words.length; w++) words[row.offset - lo + w] |= row.words[w];
+    }
+    return { offset: lo, words };
+  }
+}
+
+function sameMembers(a: number[], b: number[]): boolean {
+  const members = new Set(a);
+  return b.every(id => members.has(id));
+}
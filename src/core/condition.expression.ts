@@ -0,0 +1,427 @@
+/**
+ * Condition Expressions - a small, side-effect-free language for conditional grants
+ * Expressions are parsed and type-checked against EnrichedContext once, then compiled
+ * to plain closures (no eval):
+ *
+ *   resource.ownerId == user.id && context.ip in cidr("10.0.0.0/8")
+ *
+ * Roots: `user` (id, organizationId, subject), `resource` (the context's resource, any
+ * field) and `context` (every EnrichedContext field; metadata and resource are open).
+ * Operators: || && ! == != < <= > >= in, parentheses, and [list] literals.
+ * Functions: cidr("10.0.0.0/8" or an IPv6 range), date("ISO-8601"), now().
+ * A comparison with a missing field is unknown, and an unknown expression is false.
+ */
+
+import { EnrichedContext } from '../types';
+import { CidrRange, cidrContains, parseCidr } from '../utils/cidr';
+
+type ValueType = 'string' | 'number' | 'boolean' | 'date' | 'cidr' | 'list' | 'null' | 'unknown';
+
+type Evaluator = (ctx: EnrichedContext) => unknown;
+
+// The result of comparing a missing field. !, && and || carry it through (three-valued
+// logic), so negating a comparison with a missing field cannot turn it into an allow.
+const UNKNOWN = Symbol('unknown');
+
+type Truth = boolean | typeof UNKNOWN;
+
+interface Compiled {
+  type: ValueType;
+  evaluate: Evaluator;
+}
+
+interface Token {
+  kind: 'number' | 'string' | 'ident' | 'op' | 'end';
+  value: string;
+  pos: number;
+}
+
+// Static types of the known context fields; `undefined` marks an open object
+const CONTEXT_FIELDS: Record<string, ValueType | undefined> = {
+  userId: 'string',
+  subject: 'string',
+  organizationId: 'string',
+  endpoint: 'string',
+  method: 'string',
+  ip: 'string',
+  timestamp: 'date',
+  resourceType: 'string',
+  resource: undefined,
+  metadata: undefined
+};
+
+const USER_FIELDS: Record<string, keyof EnrichedContext> = {
+  id: 'userId',
+  organizationId: 'organizationId',
+  subject: 'subject'
+};
+
+const OPERATORS = ['||', '&&', '==', '!=', '<=', '>=', '<', '>', '!', '(', ')', '[', ']', ',', '.'];
+
+/**
+ * Parse, type-check and compile an expression. Throws with the offending position if the
+ * expression is malformed, references unknown context fields, or is not boolean.
+ */
+export function compileExpression(source: string): (ctx: EnrichedContext) => boolean {
+  const compiled = new Parser(source).parse();
+  if (compiled.type !== 'boolean' && compiled.type !== 'unknown') {
+    throw new Error(`Invalid condition expression '${source}': must evaluate to a boolean, not ${compiled.type}.`);
+  }
+  return ctx => compiled.evaluate(ctx) === true;
+}
+
+class Parser {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(private readonly source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): Compiled {
+    const result = this.parseOr();
+    this.expectEnd();
+    return result;
+  }
+
+  private parseOr(): Compiled {
+    let left = this.parseAnd();
+    while (this.match('||')) {
+      const lhs = this.operand(left, '||');
+      const rhs = this.operand(this.parseAnd(), '||');
+      left = { type: 'boolean', evaluate: ctx => or(truth(lhs.evaluate(ctx)), () => truth(rhs.evaluate(ctx))) };
+    }
+    return left;
+  }
+
+  private parseAnd(): Compiled {
+    let left = this.parseUnary();
+    while (this.match('&&')) {
+      const lhs = this.operand(left, '&&');
+      const rhs = this.operand(this.parseUnary(), '&&');
+      left = { type: 'boolean', evaluate: ctx => and(truth(lhs.evaluate(ctx)), () => truth(rhs.evaluate(ctx))) };
+    }
+    return left;
+  }
+
+  private parseUnary(): Compiled {
+    if (this.match('!')) {
+      const inner = this.operand(this.parseUnary(), '!');
+      return {
+        type: 'boolean',
+        evaluate: ctx => {
+          const value = truth(inner.evaluate(ctx));
+          return value === UNKNOWN ? UNKNOWN : !value;
+        }
+      };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Compiled {
+    const left = this.parsePrimary();
+    const token = this.peek();
+    const isIn = token.kind === 'ident' && token.value === 'in';
+    if (!isIn && !(token.kind === 'op' && ['==', '!=', '<', '<=', '>', '>='].includes(token.value))) {
+      return left;
+    }
+    this.index++;
+    const right = this.parsePrimary();
+
+    if (isIn) {
+      if (!['list', 'cidr', 'unknown'].includes(right.type)) {
+        this.fail(token, `'in' needs a list or cidr(...) on the right, not ${right.type}`);
+      }
+      return {
+        type: 'boolean',
+        evaluate: ctx => {
+          const value = left.evaluate(ctx);
+          return missing(value) ? UNKNOWN : contains(right.evaluate(ctx), value);
+        }
+      };
+    }
+
+    const op = token.value;
+    if (left.type !== 'unknown' && right.type !== 'unknown' && left.type !== 'null' && right.type !== 'null' && left.type !== right.type) {
+      this.fail(token, `cannot compare ${left.type} with ${right.type}`);
+    }
+    if (op === '==' || op === '!=') {
+      const negate = op === '!=';
+      // A missing field only equals an explicit null; any other comparison with it is unknown
+      const explicitNull = left.type === 'null' || right.type === 'null';
+      return {
+        type: 'boolean',
+        evaluate: ctx => {
+          const a = left.evaluate(ctx);
+          const b = right.evaluate(ctx);
+          if ((missing(a) || missing(b)) && !explicitNull) return UNKNOWN;
+          return equals(a, b) !== negate;
+        }
+      };
+    }
+    const ordered = [left.type, right.type].filter(t => t !== 'unknown');
+    if (ordered.some(t => t !== 'number' && t !== 'string' && t !== 'date')) {
+      this.fail(token, `'${op}' needs numbers, strings or dates`);
+    }
+    return {
+      type: 'boolean',
+      evaluate: ctx => {
+        const a = left.evaluate(ctx);
+        const b = right.evaluate(ctx);
+        return missing(a) || missing(b) ? UNKNOWN : order(op, a, b);
+      }
+    };
+  }
+
+  private parsePrimary(): Compiled {
+    const token = this.next();
+
+    if (token.kind === 'number') {
+      const value = Number(token.value);
+      return { type: 'number', evaluate: () => value };
+    }
+    if (token.kind === 'string') {
+      const value = token.value;
+      return { type: 'string', evaluate: () => value };
+    }
+    if (token.kind === 'op' && token.value === '(') {
+      const inner = this.parseOr();
+      this.expect(')');
+      return inner;
+    }
+    if (token.kind === 'op' && token.value === '[') {
+      const items: Compiled[] = [];
+      if (!this.match(']')) {
+        do items.push(this.parsePrimary()); while (this.match(','));
+        this.expect(']');
+      }
+      return { type: 'list', evaluate: ctx => items.map(item => item.evaluate(ctx)) };
+    }
+    if (token.kind !== 'ident') this.fail(token, `unexpected '${token.value || 'end of expression'}'`);
+
+    if (token.value === 'true' || token.value === 'false') {
+      const value = token.value === 'true';
+      return { type: 'boolean', evaluate: () => value };
+    }
+    if (token.value === 'null') return { type: 'null', evaluate: () => null };
+    if (this.peek().kind === 'op' && this.peek().value === '(') return this.parseCall(token);
+    return this.parsePath(token);
+  }
+
+  private parseCall(name: Token): Compiled {
+    this.expect('(');
+    const args: Token[] = [];
+    if (!this.match(')')) {
+      do {
+        const arg = this.next();
+        if (arg.kind !== 'string') this.fail(arg, `${name.value}() takes string literal arguments`);
+        args.push(arg);
+      } while (this.match(','));
+      this.expect(')');
+    }
+
+    switch (name.value) {
+      case 'cidr': {
+        if (args.length !== 1) this.fail(name, 'cidr() takes one argument');
+        const range = parseCidr(args[0].value);
+        if (!range) this.fail(args[0], `invalid CIDR '${args[0].value}'`);
+        return { type: 'cidr', evaluate: () => range };
+      }
+      case 'date': {
+        if (args.length !== 1) this.fail(name, 'date() takes one argument');
+        const value = new Date(args[0].value);
+        if (isNaN(value.getTime())) this.fail(args[0], `invalid date '${args[0].value}'`);
+        return { type: 'date', evaluate: () => value };
+      }
+      case 'now':
+        if (args.length !== 0) this.fail(name, 'now() takes no arguments');
+        return { type: 'date', evaluate: ctx => ctx.timestamp ?? new Date() };
+      default:
+        return this.fail(name, `unknown function '${name.value}'`);
+    }
+  }
+
+  private parsePath(root: Token): Compiled {
+    const segments: string[] = [];
+    while (this.match('.')) {
+      const segment = this.next();
+      if (segment.kind !== 'ident') this.fail(segment, 'expected a field name after \'.\'');
+      segments.push(segment.value);
+    }
+
+    if (root.value === 'resource') {
+      return { type: 'unknown', evaluate: ctx => readPath(ctx.resource, segments) };
+    }
+    if (root.value === 'user') {
+      const field = USER_FIELDS[segments[0]];
+      if (segments.length !== 1 || !field) {
+        this.fail(root, `unknown field 'user.${segments.join('.')}' (expected one of ${Object.keys(USER_FIELDS).join(', ')})`);
+      }
+      return { type: 'string', evaluate: ctx => ctx[field] };
+    }
+    if (root.value === 'context') {
+      const [field, ...rest] = segments;
+      if (!field || !(field in CONTEXT_FIELDS)) {
+        this.fail(root, `unknown field 'context.${segments.join('.')}' (not an EnrichedContext field)`);
+      }
+      const type = CONTEXT_FIELDS[field];
+      if (type !== undefined && rest.length > 0) {
+        this.fail(root, `'context.${field}' is a ${type} and has no fields`);
+      }
+      const key = field as keyof EnrichedContext;
+      return type === undefined
+        ? { type: 'unknown', evaluate: ctx => readPath(ctx[key], rest) }
+        : { type, evaluate: ctx => ctx[key] };
+    }
+    return this.fail(root, `unknown name '${root.value}' (expected user, resource or context)`);
+  }
+
+  /**
+   * Boolean operators only accept boolean (or dynamically typed) operands.
+   */
+  private operand(value: Compiled, op: string): Compiled {
+    if (value.type !== 'boolean' && value.type !== 'unknown') {
+      this.fail(this.tokens[Math.max(0, this.index - 1)], `'${op}' needs boolean operands, not ${value.type}`);
+    }
+    return value;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.kind !== 'end') this.index++;
+    return token;
+  }
+
+  private match(op: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'op' && token.value === op) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(op: string): void {
+    if (!this.match(op)) this.fail(this.peek(), `expected '${op}'`);
+  }
+
+  private expectEnd(): void {
+    const token = this.peek();
+    if (token.kind !== 'end') this.fail(token, `unexpected '${token.value}'`);
+  }
+
+  private fail(token: Token, message: string): never {
+    throw new Error(`Invalid condition expression '${this.source}' at position ${token.pos}: ${message}.`);
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  while (pos < source.length) {
+    const ch = source[pos];
+    if (/\s/.test(ch)) {
+      pos++;
+      continue;
+    }
+
+    const start = pos;
+    if (/[0-9]/.test(ch)) {
+      while (pos < source.length && /[0-9.]/.test(source[pos])) pos++;
+      const value = source.slice(start, pos);
+      if (isNaN(Number(value))) {
+        throw new Error(`Invalid condition expression '${source}' at position ${start}: bad number '${value}'.`);
+      }
+      tokens.push({ kind: 'number', value, pos: start });
+    } else if (ch === '"' || ch === '\'') {
+      pos++;
+      let value = '';
+      while (pos < source.length && source[pos] !== ch) {
+        if (source[pos] === '\\' && pos + 1 < source.length) pos++;
+        value += source[pos++];
+      }
+      if (pos >= source.length) {
+        throw new Error(`Invalid condition expression '${source}' at position ${start}: unterminated string.`);
+      }
+      pos++;
+      tokens.push({ kind: 'string', value, pos: start });
+    } else if (/[A-Za-z_$]/.test(ch)) {
+      while (pos < source.length && /[A-Za-z0-9_$]/.test(source[pos])) pos++;
+      tokens.push({ kind: 'ident', value: source.slice(start, pos), pos: start });
+    } else {
+      const op = OPERATORS.find(candidate => source.startsWith(candidate, pos));
+      if (!op) {
+        throw new Error(`Invalid condition expression '${source}' at position ${start}: unexpected character '${ch}'.`);
+      }
+      pos += op.length;
+      tokens.push({ kind: 'op', value: op, pos: start });
+    }
+  }
+  tokens.push({ kind: 'end', value: '', pos: source.length });
+  return tokens;
+}
+
+function readPath(value: unknown, segments: string[]): unknown {
+  let current = value;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') return undefined;
+    if (!Object.prototype.hasOwnProperty.call(current, segment)) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function missing(value: unknown): boolean {
+  return value === undefined || value === UNKNOWN;
+}
+
+function truth(value: unknown): Truth {
+  return missing(value) ? UNKNOWN : value === true;
+}
+
+function and(left: Truth, right: () => Truth): Truth {
+  if (left === false) return false;
+  const value = right();
+  if (value === false) return false;
+  return left === true && value === true ? true : UNKNOWN;
+}
+
+function or(left: Truth, right: () => Truth): Truth {
+  if (left === true) return true;
+  const value = right();
+  if (value === true) return true;
+  return left === false && value === false ? false : UNKNOWN;
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (a === undefined) a = null;
+  if (b === undefined) b = null;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  return a === b;
+}
+
+function order(op: string, a: unknown, b: unknown): boolean {
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  if (typeof left !== typeof right || (typeof left !== 'number' && typeof left !== 'string')) return false;
+  switch (op) {
+    case '<': return (left as number) < (right as number);
+    case '<=': return (left as number) <= (right as number);
+    case '>': return (left as number) > (right as number);
+    default: return (left as number) >= (right as number);
+  }
+}
+
+function contains(collection: unknown, value: unknown): boolean {
+  if (Array.isArray(collection)) {
+    return value !== undefined && collection.some(item => item !== undefined && equals(item, value));
+  }
+  if (collection && typeof collection === 'object' && 'prefix' in collection) {
+    return typeof value === 'string' && cidrContains(collection as CidrRange, value);
+  }
+  return false;
+}
@@ -0,0 +1,97 @@
+/**
+ * Separation of Duty - compiled constraints and violation checks
+ * Constraints are resolved to closure node IDs once per compiled policy, so checking
+ * a permission set costs one closure lookup per held node and constrained member.
+ */
+
+import { CompiledGraph } from './compiled.graph';
+import { ConstraintViolation, SeparationOfDutyConstraint } from '../types';
+
+export type CompiledConstraint = {
+  name: string;
+  kind: SeparationOfDutyConstraint['kind'];
+  // Node IDs of the exclusive roles or permissions (empty for maxRoles)
+  members: number[];
+  max?: number;
+};
+
+/**
+ * Resolve constraints against a compiled closure, rejecting unknown roles or
+ * permissions and malformed constraints.
+ */
+export function compileConstraints(
+  constraints: SeparationOfDutyConstraint[],
+  closure: CompiledGraph
+): CompiledConstraint[] {
+  const names = new Set<string>();
+
+  return constraints.map(constraint => {
+    const { name, kind } = constraint;
+    if (!name) {
+      throw new Error('Separation-of-duty constraints need a name.');
+    }
+    if (names.has(name)) {
+      throw new Error(`Duplicate separation-of-duty constraint '${name}'.`);
+    }
+    names.add(name);
+
+    switch (constraint.kind) {
+      case 'maxRoles':
+        if (!Number.isInteger(constraint.max) || constraint.max < 1) {
+          throw new Error(`Constraint '${name}' must set max to a positive integer.`);
+        }
+        return { name, kind, members: [], max: constraint.max };
+
+      case 'mutuallyExclusiveRoles':
+      case 'exclusivePermissions': {
+        const isRoles = constraint.kind === 'mutuallyExclusiveRoles';
+        const listed = isRoles ? constraint.roles : constraint.permissions;
+        if (!Array.isArray(listed) || new Set(listed).size < 2) {
+          throw new Error(`Constraint '${name}' needs at least two distinct ${isRoles ? 'roles' : 'permissions'}.`);
+        }
+        const members = listed.map(item => {
+          const id = closure.idOf(isRoles ? `role:${item}` : item);
+          if (id === undefined) {
+            throw new Error(`Constraint '${name}' references unknown ${isRoles ? 'role' : 'permission'} '${item}'.`);
+          }
+          return id;
+        });
+        return { name, kind, members };
+      }
+
+      default:
+        throw new Error(`Unknown kind '${kind}' on constraint '${name}'.`);
+    }
+  });
+}
+
+/**
+ * The first constraint violated by someone holding `held` (closure node IDs of role
+ * nodes and permissions). Roles count through inheritance; maxRoles counts the
+ * role nodes in `held` itself.
+ */
+export function findViolation(
+  constraints: CompiledConstraint[],
+  closure: CompiledGraph,
+  held: number[]
+): ConstraintViolation | undefined {
+  const label = (id: number) => closure.nameOf(id).replace(/^role:/, '');
+
+  for (const { name, kind, members, max } of constraints) {
+    if (kind === 'maxRoles') {
+      const roles = Array.from(new Set(held)).filter(id => closure.nameOf(id).startsWith('role:'));
+      if (roles.length > max!) return { constraint: name, kind, held: roles.map(label) };
+      continue;
+    }
+
+    const conflicting = members.filter(member => held.some(id => id === member || closure.grants(id, member)));
+    if (conflicting.length > 1) return { constraint: name, kind, held: conflicting.map(label) };
+  }
+  return undefined;
+}
+
+export function describeViolation({ kind, held }: ConstraintViolation): string {
+  const items = held.map(item => `'${item}'`).join(', ');
+  if (kind === 'maxRoles') return `holds ${held.length} roles (${items})`;
+  return `holds ${kind === 'exclusivePermissions' ? 'permissions' : 'roles'} ${items} together`;
+}
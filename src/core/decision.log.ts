@@ -0,0 +1,67 @@
+/**
+ * Decision Log - built-in sinks for decision records
+ * PermissionService writes a record for every sampled decision to each sink
+ * registered in options.decisionLog.sinks or with onDecision().
+ */
+
+import { appendFileSync } from 'fs';
+import { DecisionRecord, DecisionSink } from '../types';
+
+/**
+ * Writes each record as one JSON line (to console.log unless another writer is given).
+ */
+export class ConsoleDecisionSink implements DecisionSink {
+  constructor(private readonly writeLine: (line: string) => void = line => console.log(line)) {}
+
+  write(record: DecisionRecord): void {
+    this.writeLine(JSON.stringify(record));
+  }
+}
+
+/**
+ * Appends each record to a JSON-lines file. Appends are synchronous, so records are on
+ * disk when the check returns.
+ */
+export class JsonLinesDecisionSink implements DecisionSink {
+  constructor(private readonly path: string) {}
+
+  write(record: DecisionRecord): void {
+    appendFileSync(this.path, `${JSON.stringify(record)}\n`);
+  }
+}
+
+/**
+ * Keeps the last `capacity` records in memory, e.g. for a debug endpoint or tests.
+ */
+export class RingBufferDecisionSink implements DecisionSink {
+  private readonly buffer: DecisionRecord[] = [];
+  // Index of the oldest record once the buffer is full
+  private next = 0;
+
+  constructor(private readonly capacity = 1000) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error(`Invalid ring buffer capacity ${capacity}. Use a positive integer.`);
+    }
+  }
+
+  write(record: DecisionRecord): void {
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(record);
+      return;
+    }
+    this.buffer[this.next] = record;
+    this.next = (this.next + 1) % this.capacity;
+  }
+
+  /**
+   * The buffered records, oldest first
+   */
+  records(): DecisionRecord[] {
+    return [...this.buffer.slice(this.next), ...this.buffer.slice(0, this.next)];
+  }
+
+  clear(): void {
+    this.buffer.length = 0;
+    this.next = 0;
+  }
+}
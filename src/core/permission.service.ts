@@ -1,6 +1,8 @@
 /**
  * Permission Service - O(1) permission checking with hierarchy support
- * Uses Floyd-Warshall algorithm to pre-compute all permission relationships
+ * Pre-computes all permission relationships as a transitive closure over the
+ * (acyclic) permission graph, in reverse topological order, and stores it as
+ * interned bitset rows (see CompiledGraph)
  */
 
 import {
@@ -11,113 +13,1179 @@ import {
   EnrichedContext,
   PermissionServiceOptions,
   Predicate,
+  ParameterizedPredicate,
+  PredicateArgSchema,
+  PredicateCall,
+  Condition,
+  ConditionExpression,
+  ConditionResult,
   ConditionalPermission,
   RolePermissionEntry,
-  PermissionMatch
+  DenyPermission,
+  PermissionMatch,
+  DenyMatch,
+  PolicySnapshot,
+  Role,
+  ResourceTree,
+  ResourceDefinition,
+  TenantOverrides,
+  RelationTuple,
+  Subject,
+  AssignmentStoreAdapter,
+  ValidityWindow,
+  ExpiredMatch,
+  ExpiringGrant,
+  ConstraintViolation,
+  Delegation,
+  DelegationRequest,
+  BreakGlassActivation,
+  BreakGlassEvent,
+  DecisionLogOptions,
+  DecisionRecord,
+  DecisionSink,
+  MetricsCollector,
+  CheckTracer,
+  CheckSpan,
+  PredicateOutcome,
+  PredicateError,
+  PredicateErrorPolicy,
+  TupleStoreAdapter
 } from '../types';
+import { CompiledGraph } from './compiled.graph';
+import { InMemoryTupleStore, parseTuple, resolveRelation } from './relation.store';
+import { compileExpression } from './condition.expression';
+import { InMemoryAssignmentStore, resolveAssignments } from './assignment.store';
+import { CompiledConstraint, compileConstraints, describeViolation, findViolation } from './constraints';
+import { describeWindow, ParsedWindow, parseWindow, windowState } from '../utils/validity.window';
+import { flattenModules, ResourceNode } from '../utils/resource.tree';
+import { expandPermissionPattern, isPermissionPattern } from '../utils/permission.pattern';
+import {
+  SnapshotPayload,
+  hashConfig,
+  encodeJsonSnapshot,
+  encodeBinarySnapshot,
+  decodeSnapshot
+} from './policy.snapshot';
+
+type ConditionalGrant = {
+  permission: string;
+  permissionId: number;
+  instance?: string;
+  predicates: Condition[];
+  window?: ParsedWindow;
+};
+
+// A grant on one resource instance: `permission` is the full string, `permissionId` its base
+type InstanceGrant = { permission: string; permissionId: number };
+
+type NormalizedEntry = {
+  permission: string;
+  instance?: string;
+  predicates: Condition[];
+  deny: boolean;
+  window?: ParsedWindow;
+};
+
+// A condition that is evaluated directly rather than composed
+type ConditionLeaf = string | PredicateCall | ConditionExpression;
+
+// A registered predicate; plain predicates take no arguments
+type RegisteredPredicate = {
+  evaluate: (ctx: EnrichedContext, args: Record<string, unknown>) => boolean | Promise<boolean>;
+  args?: Record<string, PredicateArgSchema>;
+};
+
+type BlockedIndex = Map<number, Map<number, { role: string; deny: string }>>;
+
+// A relation whose holders get `permissionIds` on objects of `type`
+type RelationGrant = { type: string; relation: string; permissionIds: number[] };
+
+const DEFAULT_ACTION_HIERARCHY: Record<string, string[]> = {
+  delete: ['update', 'create', 'read'],
+  update: ['create', 'read'],
+  create: ['read'],
+  read: []
+};
+
+/**
+ * Everything compiled from an RBACConfig. Checks read it through a single reference,
+ * so replacing it (see updateConfig) is atomic.
+ */
+type CompiledPolicy = {
+  config: RBACConfig;
+  allPermissions: Set<string>;
+  closure: CompiledGraph;
+  // conditionalGrants[roleId] = grants evaluated at check-time against predicates
+  conditionalGrants: Map<number, ConditionalGrant[]>;
+  // blockedBy[roleId][permissionId] = { role, deny } for every permission blocked by the
+  // role's own denies or those of any role it inherits (flattened after closure)
+  blockedBy: BlockedIndex;
+  // instanceGrants[roleId][instanceId] = unconditional instance grants of the role and
+  // every role it inherits (flattened after closure)
+  instanceGrants: Map<number, Map<string, InstanceGrant[]>>;
+  // relationGrants[module or module.resource] = relations granting permissions on its instances
+  relationGrants: Map<string, RelationGrant[]>;
+  // Internal map for O(1) semantic method lookup
+  methodMap: Map<string, string>;
+  // Separation-of-duty constraints resolved to closure node IDs
+  constraints: CompiledConstraint[];
+};
+
+const DEFAULT_PREDICATE_TIMEOUT_MS = 5000;
+const DEFAULT_BREAK_GLASS_MAX_DURATION_MS = 60 * 60 * 1000;
+// OpenTelemetry's SpanStatusCode.ERROR
+const SPAN_STATUS_ERROR = 2;
 
-type ConditionalGrant = { permission: string; predicates: string[] };
+type BreakGlassUse = NonNullable<PermissionCheckResult['breakGlass']>;
+
+// An instrumented check in progress (see startDecision)
+type DecisionTrace = { started: number; logged: boolean; span?: CheckSpan };
 
 type EvaluationResult =
-  | { allowed: true; match: PermissionMatch }
-  | { allowed: false; evaluated: { name: string; passed: boolean }[] };
+  | { allowed: true; match: PermissionMatch; breakGlass?: BreakGlassUse; errors?: PredicateError[] }
+  | {
+      allowed: false;
+      evaluated: { name: string; passed: boolean }[];
+      errors?: PredicateError[];
+      deniedBy?: DenyMatch;
+      expired?: ExpiredMatch[];
+      violation?: ConstraintViolation;
+      // Delegated checks denied before the principal's permissions are considered
+      delegation?: 'expired' | 'outOfScope';
+      breakGlass?: BreakGlassUse;
+    };
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Delegations are accepted wherever user permissions are
+function isDelegation(userPermissions: readonly string[] | Set<string> | Delegation): userPermissions is Delegation {
+  return !Array.isArray(userPermissions) && !(userPermissions instanceof Set);
+}
 
 export class PermissionService {
-  private graph: PermissionGraph;
-  private allPermissions: Set<string>;
-  private config: RBACConfig;
-  private readonly ACTIONS: string[];
-  private readonly ACTION_HIERARCHY: Record<string, string[]>;
+  private policy: CompiledPolicy;
 
-  private predicates: Map<string, Predicate>;
-  private conditionalGrants: Map<string, ConditionalGrant[]>;
+  // Tenant layers keyed by EnrichedContext.organizationId, each compiled on top of `policy`
+  private tenants: Map<string, TenantOverrides>;
+  private tenantPolicies: Map<string, CompiledPolicy>;
+
+  private predicates: Map<string, RegisteredPredicate>;
+  // Compiled condition expressions keyed by source
+  private expressions = new Map<string, (ctx: EnrichedContext) => boolean>();
+  private predicateTimeoutMs: number;
+  private predicateErrorPolicies: Record<string, PredicateErrorPolicy>;
+
+  // Relationship tuples, shared by the base policy and every tenant layer
+  private tuples: TupleStoreAdapter;
+
+  // Subjects and their role assignments (see check)
+  private assignments: AssignmentStoreAdapter;
+
+  // Emergency access: the role, and its activations keyed by user ID
+  private breakGlass?: { role: string; maxDurationMs: number; sink: (event: BreakGlassEvent) => void };
+  private breakGlassActivations = new Map<string, { activation: BreakGlassActivation; window: ParsedWindow }>();
+
+  // Decision log (see onDecision)
+  private decisionSinks: DecisionSink[];
+  private decisionLog: Required<Omit<DecisionLogOptions, 'sinks'>>;
+  // Config hashes, computed on first use
+  private configVersions = new WeakMap<RBACConfig, string>();
+
+  private metrics?: MetricsCollector;
+  private tracer?: CheckTracer;
 
   // Public proxy for fluent API
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   public readonly can: any;
 
-  // Internal map for O(1) semantic method lookup
-  private methodMap: Map<string, string>;
-
   constructor(config: RBACConfig, options: PermissionServiceOptions = {}) {
-    this.config = config;
-    this.predicates = new Map(Object.entries(options.predicates ?? {}));
-    this.conditionalGrants = new Map();
-
-    // Initialize hierarchy and actions based on config or defaults
-    if (config.hierarchy) {
-      this.ACTION_HIERARCHY = config.hierarchy;
-      this.ACTIONS = Object.keys(config.hierarchy);
-    } else {
-      this.ACTION_HIERARCHY = {
-        delete: ['update', 'create', 'read'],
-        update: ['create', 'read'],
-        create: ['read'],
-        read: []
+    this.predicates = new Map(
+      Object.entries(options.predicates ?? {}).map(([name, predicate]): [string, RegisteredPredicate] => [
+        name,
+        typeof predicate === 'function'
+          ? { evaluate: (ctx: EnrichedContext) => (predicate as Predicate)(ctx) }
+          : (predicate as ParameterizedPredicate)
+      ])
+    );
+    this.predicateTimeoutMs = options.predicateTimeoutMs ?? DEFAULT_PREDICATE_TIMEOUT_MS;
+    this.predicateErrorPolicies = { ...options.onPredicateError };
+    Object.entries(this.predicateErrorPolicies).forEach(([name, policy]) => {
+      if (name !== '*' && !this.predicates.has(name)) {
+        throw new Error(`Error policy set for unknown predicate '${name}'.`);
+      }
+      if (!['failClosed', 'failOpen', 'throw'].includes(policy)) {
+        throw new Error(`Invalid error policy '${policy}' for predicate '${name}'. Use 'failClosed', 'failOpen' or 'throw'.`);
+      }
+    });
+    this.tuples = options.tupleStore ?? new InMemoryTupleStore();
+    this.assignments = options.assignmentStore ?? new InMemoryAssignmentStore();
+    this.decisionSinks = [...(options.decisionLog?.sinks ?? [])];
+    this.decisionLog = {
+      sampleRate: options.decisionLog?.sampleRate ?? 1,
+      redactResource: options.decisionLog?.redactResource ?? true
+    };
+    if (!(this.decisionLog.sampleRate >= 0 && this.decisionLog.sampleRate <= 1)) {
+      throw new Error(`Invalid decision log sampleRate ${this.decisionLog.sampleRate}. Use a number from 0 to 1.`);
+    }
+    this.metrics = options.metrics;
+    this.tracer = options.tracer;
+    if (options.breakGlass) {
+      this.breakGlass = {
+        ...options.breakGlass,
+        maxDurationMs: options.breakGlass.maxDurationMs ?? DEFAULT_BREAK_GLASS_MAX_DURATION_MS
       };
-      this.ACTIONS = ['delete', 'update', 'create', 'read'];
     }
 
-    this.allPermissions = this.generateAllPermissions(config);
-    this.validateRolePermissions();
-    this.graph = this.buildPermissionGraph(config);
-    this.detectCircularDependencies();
-    this.applyFloydWarshallTransitiveClosure();
+    this.policy = options.snapshot
+      ? this.restoreSnapshot(config, options.snapshot)
+      : this.compilePolicy(config);
 
-    // Initialize semantic methods
-    this.methodMap = new Map();
-    this.generateSemanticMethods();
+    this.tenants = new Map(Object.entries(options.tenants ?? {}));
+    this.tenantPolicies = this.compileTenants(this.policy, this.tenants);
 
     // Initialize Proxy
     this.can = new Proxy({}, {
       get: (_target, prop: string) => {
+        // "readPostsAsync" is the async form of "readPosts"
+        const isAsync = !this.policy.methodMap.has(prop) && prop.endsWith('Async');
+        const method = isAsync ? prop.slice(0, -'Async'.length) : prop;
         return (userPermissions: string[] | Set<string>, context?: EnrichedContext) => {
-          const permission = this.methodMap.get(prop);
+          const permission = this.policy.methodMap.get(method);
           if (!permission) {
              throw new Error(`Method '${prop}' does not exist or matches no permission.`);
           }
-          return this.hasPermission(userPermissions, permission, context);
+          return isAsync
+            ? this.hasPermissionAsync(userPermissions, permission, context)
+            : this.hasPermission(userPermissions, permission, context);
         };
       }
     });
   }
 
+  /**
+   * Load a compiled snapshot instead of building the graph from the config.
+   * The snapshot must have been compiled from an identical config.
+   */
+  static fromSnapshot(
+    config: RBACConfig,
+    snapshot: PolicySnapshot | Buffer | string,
+    options: PermissionServiceOptions = {}
+  ): PermissionService {
+    return new PermissionService(config, { ...options, snapshot });
+  }
+
+  /**
+   * Serialize the compiled policy (closure, conditional grants, denies, method map)
+   * so another process can skip the build via PermissionService.fromSnapshot().
+   */
+  compile(): PolicySnapshot;
+  compile(options: { format: 'json' }): PolicySnapshot;
+  compile(options: { format: 'binary' }): Buffer;
+  compile(options: { format?: 'json' | 'binary' } = {}): PolicySnapshot | Buffer {
+    const { config, closure, conditionalGrants, blockedBy, instanceGrants, methodMap } = this.policy;
+
+    const payload: SnapshotPayload = {
+      configHash: hashConfig(config),
+      graph: closure.serialize(),
+      conditionalGrants: [],
+      blockedBy: [],
+      instanceGrants: [],
+      methods: Array.from(methodMap)
+    };
+    conditionalGrants.forEach((grants, roleId) => {
+      grants.forEach(({ permissionId, instance, predicates, window }) => {
+        payload.conditionalGrants.push(
+          window !== undefined
+            ? [roleId, permissionId, predicates, instance ?? null, window]
+            : instance === undefined
+            ? [roleId, permissionId, predicates]
+            : [roleId, permissionId, predicates, instance]
+        );
+      });
+    });
+    instanceGrants.forEach((byInstance, roleId) => {
+      byInstance.forEach((grants, instance) => {
+        grants.forEach(({ permissionId }) => payload.instanceGrants.push([roleId, instance, permissionId]));
+      });
+    });
+    blockedBy.forEach((blocked, roleId) => {
+      blocked.forEach(({ role, deny }, permissionId) => {
+        payload.blockedBy.push([roleId, permissionId, closure.idOf(role)!, closure.idOf(deny)!]);
+      });
+    });
+
+    return options.format === 'binary' ? encodeBinarySnapshot(payload) : encodeJsonSnapshot(payload);
+  }
+
+  /**
+   * Decode a snapshot into a compiled policy, rejecting it if it was built from another
+   * config or format version, or references predicates that are not registered.
+   */
+  private restoreSnapshot(config: RBACConfig, snapshot: PolicySnapshot | Buffer | string): CompiledPolicy {
+    const payload = decodeSnapshot(snapshot);
+    if (payload.configHash !== hashConfig(config)) {
+      throw new Error('Snapshot was compiled from a different RBACConfig (config hash mismatch). Recompile it.');
+    }
+
+    const closure = CompiledGraph.deserialize(payload.graph);
+    this.validateBreakGlassRole(config, closure);
+    // Enumerating the config's permissions is cheap; only the closure is expensive to rebuild.
+    const allPermissions = this.generateAllPermissions(config);
+
+    const conditionalGrants = new Map<number, ConditionalGrant[]>();
+    for (const [roleId, permissionId, predicates, storedInstance, window] of payload.conditionalGrants) {
+      const instance = storedInstance ?? undefined;
+      const permission = this.joinInstance(closure.nameOf(permissionId), instance);
+      predicates.forEach(condition => {
+        this.validateCondition(closure.nameOf(roleId).slice('role:'.length), permission, condition);
+      });
+      const list = conditionalGrants.get(roleId) ?? [];
+      list.push({ permission, permissionId, instance, predicates, window });
+      conditionalGrants.set(roleId, list);
+    }
+
+    const instanceGrants = new Map<number, Map<string, InstanceGrant[]>>();
+    for (const [roleId, instance, permissionId] of payload.instanceGrants) {
+      if (!instanceGrants.has(roleId)) instanceGrants.set(roleId, new Map());
+      const byInstance = instanceGrants.get(roleId)!;
+      const list = byInstance.get(instance) ?? [];
+      list.push({ permission: this.joinInstance(closure.nameOf(permissionId), instance), permissionId });
+      byInstance.set(instance, list);
+    }
+
+    const blockedBy: BlockedIndex = new Map();
+    for (const [roleId, permissionId, sourceRoleId, denyId] of payload.blockedBy) {
+      if (!blockedBy.has(roleId)) blockedBy.set(roleId, new Map());
+      blockedBy.get(roleId)!.set(permissionId, { role: closure.nameOf(sourceRoleId), deny: closure.nameOf(denyId) });
+    }
+
+    return {
+      config,
+      allPermissions,
+      closure,
+      conditionalGrants,
+      blockedBy,
+      instanceGrants,
+      relationGrants: this.indexRelations(config, closure),
+      methodMap: new Map(payload.methods),
+      constraints: compileConstraints(config.constraints ?? [], closure)
+    };
+  }
+
+  /**
+   * Replace the whole config at runtime. The change is validated with the same rules as
+   * construction; only closure rows affected by the change are recomputed, and the new
+   * policy is swapped in at once, so checks (and the `can` proxy) never observe a
+   * half-applied update. Throws, leaving the current policy in place, if the config is invalid.
+   */
+  updateConfig(config: RBACConfig): void {
+    const policy = this.compilePolicy(config, this.policy);
+    // Tenant layers are rebuilt on the new base; a tenant that no longer validates fails the update.
+    const tenantPolicies = this.compileTenants(policy, this.tenants);
+
+    this.policy = policy;
+    this.tenantPolicies = tenantPolicies;
+  }
+
+  /**
+   * Add a role at runtime (see updateConfig).
+   */
+  addRole(role: Role): void {
+    const { config } = this.policy;
+    if (config.roles?.[role.id]) {
+      throw new Error(`Role '${role.id}' already exists. Use updateConfig() to change it.`);
+    }
+    this.updateConfig({ ...config, roles: { ...config.roles, [role.id]: role } });
+  }
+
+  /**
+   * Remove a role at runtime (see updateConfig). Fails if another role still inherits
+   * or references it.
+   */
+  removeRole(roleId: string): void {
+    const { config } = this.policy;
+    if (!config.roles?.[roleId]) {
+      throw new Error(`Role '${roleId}' does not exist.`);
+    }
+    const roles = { ...config.roles };
+    delete roles[roleId];
+    this.updateConfig({ ...config, roles });
+  }
+
+  /**
+   * Add a module and its resource tree at runtime (see updateConfig).
+   */
+  addModule(module: string, resources: ResourceTree | ResourceDefinition = []): void {
+    const { config } = this.policy;
+    if (config.modules[module]) {
+      throw new Error(`Module '${module}' already exists. Use updateConfig() to change it.`);
+    }
+    this.updateConfig({ ...config, modules: { ...config.modules, [module]: resources } });
+  }
+
+  /**
+   * Register (or replace) the role overrides for a tenant. Checks whose context carries
+   * this organizationId are evaluated against the base config with these overrides applied.
+   */
+  setTenant(organizationId: string, overrides: TenantOverrides): void {
+    const policy = this.compileTenants(this.policy, new Map([[organizationId, overrides]])).get(organizationId)!;
+    this.tenants.set(organizationId, overrides);
+    this.tenantPolicies.set(organizationId, policy);
+  }
+
+  /**
+   * Drop a tenant's overrides; its checks fall back to the base config.
+   */
+  removeTenant(organizationId: string): void {
+    this.tenants.delete(organizationId);
+    this.tenantPolicies.delete(organizationId);
+  }
+
+  /**
+   * Get the effective config for a tenant (the base config when it has no overrides)
+   */
+  getTenantConfig(organizationId: string): RBACConfig {
+    return (this.tenantPolicies.get(organizationId) ?? this.policy).config;
+  }
+
+  /**
+   * Compile every tenant layer on top of a base policy. Tenant closures are derived
+   * from the base closure, so rows a tenant does not touch are shared with it.
+   */
+  private compileTenants(base: CompiledPolicy, tenants: Map<string, TenantOverrides>): Map<string, CompiledPolicy> {
+    const policies = new Map<string, CompiledPolicy>();
+    tenants.forEach((overrides, organizationId) => {
+      try {
+        policies.set(organizationId, this.compilePolicy(this.applyTenantOverrides(base.config, overrides), base));
+      } catch (error) {
+        throw new Error(`Tenant '${organizationId}': ${(error as Error).message}`);
+      }
+    });
+    return policies;
+  }
+
+  /**
+   * Layer tenant overrides on a base config: drop disabled modules (and base role entries
+   * that target them), then add or replace roles with the tenant's definitions.
+   */
+  private applyTenantOverrides(base: RBACConfig, overrides: TenantOverrides): RBACConfig {
+    const disabled = new Set(overrides.disabledModules ?? []);
+    disabled.forEach(module => {
+      if (!base.modules[module]) {
+        throw new Error(`Cannot disable unknown module '${module}'.`);
+      }
+    });
+
+    const modules = { ...base.modules };
+    disabled.forEach(module => delete modules[module]);
+
+    const targetsDisabled = (entry: RolePermissionEntry) => {
+      const { permission } = this.normalizeRoleEntry(entry);
+      if (permission.startsWith('role:')) return false;
+      return disabled.has(permission.split(':')[0].split('.')[0]);
+    };
+
+    const roles: Record<string, Role> = {};
+    Object.entries(base.roles ?? {}).forEach(([roleId, role]) => {
+      roles[roleId] = disabled.size > 0
+        ? { ...role, permissions: role.permissions.filter(entry => !targetsDisabled(entry)) }
+        : role;
+    });
+    Object.entries(overrides.roles ?? {}).forEach(([roleId, role]) => {
+      roles[roleId] = role;
+    });
+
+    return { ...base, modules, roles };
+  }
+
+  /**
+   * The compiled policy a check runs against: the tenant layer for the context's
+   * organizationId if one is registered, the base policy otherwise.
+   */
+  private policyFor(context?: EnrichedContext): CompiledPolicy {
+    if (context?.organizationId !== undefined && this.tenantPolicies.size > 0) {
+      return this.tenantPolicies.get(context.organizationId) ?? this.policy;
+    }
+    return this.policy;
+  }
+
+  /**
+   * Store relationship tuples ("document:42#viewer@user:alice"). Objects must be of a
+   * type declared in config.relations, and the relation must be defined on that type.
+   */
+  writeRelations(tuples: (RelationTuple | string)[]): void {
+    const parsed = tuples.map(tuple => (typeof tuple === 'string' ? parseTuple(tuple) : tuple));
+    parsed.forEach(tuple => this.validateTuple(tuple));
+    this.tuples.write(parsed);
+  }
+
+  /**
+   * Remove relationship tuples; tuples that are not stored are ignored.
+   */
+  deleteRelations(tuples: (RelationTuple | string)[]): void {
+    this.tuples.delete(tuples.map(tuple => (typeof tuple === 'string' ? parseTuple(tuple) : tuple)));
+  }
+
+  /**
+   * Does `subject` ("user:alice", or a userset like "group:eng#member") hold `relation`
+   * on `object`, directly or through usersets, included relations and parent objects?
+   */
+  checkRelation(subject: string, relation: string, object: string): boolean {
+    const types = this.policy.config.relations ?? {};
+    const type = object.slice(0, object.indexOf(':'));
+    if (!types[type]?.relations[relation]) {
+      throw new Error(`Unknown relation '${relation}' on object type '${type}'.`);
+    }
+    return resolveRelation(types, this.tuples, object, relation, subject) !== undefined;
+  }
+
+  private validateTuple({ object, relation, subject }: RelationTuple): void {
+    const types = this.policy.config.relations ?? {};
+    const type = object.slice(0, object.indexOf(':'));
+    if (!types[type]) {
+      throw new Error(`Unknown object type '${type}' in relation tuple. Declare it in config.relations.`);
+    }
+    if (!types[type].relations[relation]) {
+      throw new Error(`Unknown relation '${relation}' on object type '${type}'.`);
+    }
+
+    const hash = subject.indexOf('#');
+    if (hash !== -1) {
+      const subjectType = subject.slice(0, subject.indexOf(':'));
+      if (!types[subjectType]?.relations[subject.slice(hash + 1)]) {
+        throw new Error(`Unknown userset '${subject}': relation is not defined on object type '${subjectType}'.`);
+      }
+    }
+  }
+
+  /**
+   * Store (or replace) a subject. Its roles must exist in the base config or a tenant,
+   * and its groups must be stored subjects of type 'group'.
+   */
+  saveSubject(subject: Subject): void {
+    subject.roles?.forEach(assignment => {
+      const role = typeof assignment === 'string' ? assignment : assignment.role;
+      if (!this.roleExists(role)) {
+        throw new Error(`Unknown role '${role}' assigned to subject '${subject.id}'.`);
+      }
+      if (role === this.breakGlass?.role) {
+        throw new Error(`Break-glass role '${role}' cannot be assigned to subject '${subject.id}'. Use activateBreakGlass().`);
+      }
+      if (typeof assignment !== 'string') {
+        parseWindow(assignment, `role assignment '${role}' of subject '${subject.id}'`);
+      }
+    });
+    subject.permissions?.forEach(permission => {
+      if (!this.policy.allPermissions.has(this.splitInstance(permission).permission)) {
+        throw new Error(`Invalid permission '${permission}' granted to subject '${subject.id}'. This permission does not exist in the configured modules or hierarchy.`);
+      }
+    });
+    subject.groups?.forEach(groupId => {
+      const group = groupId === subject.id ? subject : this.assignments.get(groupId);
+      if (group?.type !== 'group') {
+        throw new Error(`Subject '${subject.id}' is a member of '${groupId}', which is not a stored group.`);
+      }
+    });
+    this.checkSubjectConstraints(subject);
+    this.assignments.put(subject);
+  }
+
+  /**
+   * Reject a subject whose role assignments (in any window) and permissions, directly or
+   * through its groups, violate a separation-of-duty constraint. Saving a group
+   * re-checks every subject that belongs to it.
+   */
+  private checkSubjectConstraints(subject: Subject): void {
+    const { constraints, closure } = this.policy;
+    if (constraints.length === 0) return;
+
+    const store = { get: (id: string) => (id === subject.id ? subject : this.assignments.get(id)) };
+    const affected = [subject.id];
+    if (subject.type === 'group') {
+      this.assignments.list().forEach(({ id }) => {
+        if (id !== subject.id && resolveAssignments(store, id).groups.has(subject.id)) affected.push(id);
+      });
+    }
+
+    affected.forEach(id => {
+      const { roles, permissions, inactive } = resolveAssignments(store, id);
+      const held = [...Array.from(roles), ...inactive.map(({ role }) => role)]
+        .map(role => closure.idOf(`role:${role}`))
+        .concat(Array.from(permissions, permission => closure.idOf(this.splitInstance(permission).permission)))
+        .filter((nodeId): nodeId is number => nodeId !== undefined);
+      const violation = findViolation(constraints, closure, held);
+      if (violation) {
+        throw new Error(`Subject '${id}' violates separation-of-duty constraint '${violation.constraint}': it ${describeViolation(violation)}.`);
+      }
+    });
+  }
+
+  getSubject(id: string): Subject | undefined {
+    return this.assignments.get(id);
+  }
+
+  /**
+   * Remove a subject. Groups can only be removed once they have no members.
+   */
+  removeSubject(id: string): void {
+    const members = this.assignments.list().filter(subject => subject.groups?.includes(id));
+    if (members.length > 0) {
+      throw new Error(`Group '${id}' still has members: ${members.map(member => member.id).join(', ')}.`);
+    }
+    this.assignments.delete(id);
+  }
+
+  /**
+   * Assign a role to a stored subject, replacing any existing assignment of that role.
+   * With a window (validFrom/expiresAt) the assignment is time-bound.
+   */
+  assignRole(subjectId: string, roleId: string, window: ValidityWindow = {}): void {
+    const subject = this.requireSubject(subjectId);
+    const assignment = window.validFrom === undefined && window.expiresAt === undefined
+      ? roleId
+      : { role: roleId, validFrom: window.validFrom, expiresAt: window.expiresAt };
+    const others = (subject.roles ?? []).filter(role => (typeof role === 'string' ? role : role.role) !== roleId);
+    this.saveSubject({ ...subject, roles: [...others, assignment] });
+  }
+
+  revokeRole(subjectId: string, roleId: string): void {
+    const subject = this.requireSubject(subjectId);
+    const roles = (subject.roles ?? []).filter(role => (typeof role === 'string' ? role : role.role) !== roleId);
+    this.assignments.put({ ...subject, roles });
+  }
+
+  /**
+   * The user permissions a subject holds at `at` (default now): "role:" nodes for its
+   * roles plus its direct permissions, including those of its groups. Role assignments
+   * outside their window are left out. Unknown subjects hold nothing.
+   */
+  resolveSubject(subjectId: string, at?: Date): string[] {
+    const { roles, permissions } = resolveAssignments(this.assignments, subjectId, at?.getTime());
+    return [...Array.from(roles, role => `role:${role}`), ...permissions];
+  }
+
+  /**
+   * Check a stored subject's permission (see resolveSubject) at the context's timestamp.
+   * The context defaults userId to the subject ID and subject to "<type>:<id>" for
+   * relation checks.
+   */
+  check(subjectId: string, requiredPermission: string, context?: EnrichedContext): boolean {
+    return this.hasPermission(
+      this.resolveSubject(subjectId, context?.timestamp), requiredPermission, this.subjectContext(subjectId, context)
+    );
+  }
+
+  /**
+   * Like check, but evaluates async predicates (see hasPermissionAsync).
+   */
+  checkAsync(
+    subjectId: string,
+    requiredPermission: string,
+    context?: EnrichedContext,
+    options: { timeoutMs?: number } = {}
+  ): Promise<boolean> {
+    return this.hasPermissionAsync(
+      this.resolveSubject(subjectId, context?.timestamp), requiredPermission, this.subjectContext(subjectId, context), options
+    );
+  }
+
+  /**
+   * Like check, but explains the decision (see checkPermissionDetailed). Denials also
+   * report role assignments outside their window that would have allowed the check.
+   */
+  checkDetailed(subjectId: string, requiredPermission: string, context?: EnrichedContext): PermissionCheckResult {
+    const subjectContext = this.subjectContext(subjectId, context);
+    const { roles, permissions, inactive } = resolveAssignments(this.assignments, subjectId, context?.timestamp?.getTime());
+    const result = this.checkPermissionDetailed(
+      [...Array.from(roles, role => `role:${role}`), ...permissions], requiredPermission, subjectContext
+    );
+    if (result.allowed || result.deniedBy || result.violation) return result;
+
+    const expiredAssignments: ExpiredMatch[] = inactive
+      .filter(({ role }) => this.evaluate([`role:${role}`], requiredPermission, subjectContext).allowed)
+      .map(({ subjectId: holder, role, state, window }) => ({ role, subjectId: holder, state, ...describeWindow(window) }));
+    if (expiredAssignments.length === 0) return result;
+
+    const expired = [...expiredAssignments, ...(result.expired ?? [])];
+    return {
+      ...result,
+      reason: `Denied. Time-bound grants are not valid now: [${expired.map(e => this.describeExpired(e)).join(', ')}].`,
+      expired
+    };
+  }
+
+  /**
+   * Let `actor` act on behalf of `principal` within `scope`, until `expiresAt` if given.
+   * The derived permission set is the intersection of the principal's effective
+   * permissions (see getEffectivePermissions) and the scope; conditional grants are not
+   * delegated. A check with the delegation also requires the principal to pass it, so
+   * the principal's denies and separation-of-duty constraints still apply, and
+   * predicates see the principal as the user. The principal's permissions are captured
+   * now: delegate again after its roles change.
+   */
+  delegate(request: DelegationRequest): Delegation {
+    const { principal, actor } = request;
+    if (!principal || !actor) {
+      throw new Error('Delegations need a principal and an actor.');
+    }
+    const owner = `delegation from '${principal}' to '${actor}'`;
+    const window = parseWindow({ expiresAt: request.expiresAt }, owner);
+    if (!request.permissions) this.requireSubject(principal);
+    const principalPermissions = request.permissions ?? this.resolveSubject(principal);
+
+    const { allPermissions, closure } = this.policy;
+    const scope = request.scope.flatMap(entry => {
+      if (isPermissionPattern(entry)) {
+        const matches = expandPermissionPattern(entry, allPermissions);
+        if (matches.length === 0) {
+          throw new Error(`Permission pattern '${entry}' in ${owner} matches no configured permissions.`);
+        }
+        return matches;
+      }
+      const node = this.toNode(entry);
+      if (closure.idOf(this.splitInstance(node).permission) === undefined) {
+        throw new Error(`Invalid permission '${entry}' in ${owner}. This permission does not exist in the configured modules or hierarchy.`);
+      }
+      return [node];
+    });
+
+    // Candidates: everything the principal holds, plus instance permissions requested
+    // in the scope, which the principal may hold through their base permission.
+    const effective = Array.from(this.getEffectivePermissions(principalPermissions));
+    const candidates = new Set([...effective, ...scope.filter(entry => this.splitInstance(entry).instance !== undefined)]);
+    const derived = Array.from(candidates).filter(candidate =>
+      effective.some(held => held === candidate || this.covers(held, candidate)) &&
+      scope.some(entry => entry === candidate || this.covers(entry, candidate))
+    );
+    // Keep the most general permissions: the rest are granted through them
+    const permissions = derived.filter(permission =>
+      !derived.some(other => other !== permission && this.covers(other, permission))
+    );
+
+    return {
+      actor,
+      principal,
+      principalPermissions: [...principalPermissions],
+      permissions,
+      ...(window?.expiresAt !== undefined ? { expiresAt: new Date(window.expiresAt).toISOString() } : {})
+    };
+  }
+
+  /**
+   * Whether holding `held` grants `permission`. An instance permission covers only its
+   * own instance; a type-level one covers every instance.
+   */
+  private covers(held: string, permission: string, policy: CompiledPolicy = this.policy): boolean {
+    const { closure } = policy;
+    const holder = this.splitInstance(this.toNode(held, policy));
+    const wanted = this.splitInstance(permission);
+    if (holder.instance !== undefined && holder.instance !== wanted.instance) return false;
+    const holderId = closure.idOf(holder.permission);
+    const wantedId = closure.idOf(wanted.permission);
+    if (holderId === undefined || wantedId === undefined) return false;
+    return holderId === wantedId || closure.grants(holderId, wantedId);
+  }
+
+  /**
+   * A delegated check: within the delegation's window and derived permission set, and
+   * allowed for the principal.
+   */
+  private evaluateDelegation(
+    delegation: Delegation,
+    requiredPermission: string,
+    context: EnrichedContext | undefined,
+    predicate: ((leaf: ConditionLeaf) => boolean) | undefined,
+    shortCircuit: boolean
+  ): EvaluationResult {
+    const now = context?.timestamp?.getTime() ?? Date.now();
+    if (delegation.expiresAt !== undefined && now >= Date.parse(delegation.expiresAt)) {
+      return { allowed: false, evaluated: [], delegation: 'expired' };
+    }
+    const policy = this.policyFor(context);
+    if (!delegation.permissions.some(held => this.covers(held, requiredPermission, policy))) {
+      return { allowed: false, evaluated: [], delegation: 'outOfScope' };
+    }
+    return this.evaluate(
+      delegation.principalPermissions, requiredPermission, this.principalContext(delegation.principal, context), predicate, shortCircuit
+    );
+  }
+
+  /**
+   * Grant `userId` the break-glass role for `durationMs` (at most
+   * BreakGlassOptions.maxDurationMs) from `from` (default now), replacing any earlier
+   * activation. Checks only use it when their context carries a justification.
+   */
+  activateBreakGlass(
+    userId: string,
+    justification: string,
+    durationMs?: number,
+    from: Date = new Date()
+  ): BreakGlassActivation {
+    if (!this.breakGlass) {
+      throw new Error('Break-glass access is not configured. Set PermissionServiceOptions.breakGlass.');
+    }
+    const { maxDurationMs, sink } = this.breakGlass;
+    if (!justification?.trim()) {
+      throw new Error(`Break-glass activation for '${userId}' needs a justification.`);
+    }
+    const duration = durationMs ?? maxDurationMs;
+    if (!(duration > 0) || duration > maxDurationMs) {
+      throw new Error(`Invalid break-glass duration ${duration} ms for '${userId}'. Use at most ${maxDurationMs} ms.`);
+    }
+
+    const window = { validFrom: from.getTime(), expiresAt: from.getTime() + duration };
+    const activation: BreakGlassActivation = {
+      userId,
+      justification: justification.trim(),
+      activatedAt: from.toISOString(),
+      expiresAt: new Date(window.expiresAt).toISOString()
+    };
+    // Audit first: an activation the sink cannot record does not happen
+    sink({ type: 'activated', at: activation.activatedAt, activation });
+    this.breakGlassActivations.set(userId, { activation, window });
+    return activation;
+  }
+
+  /**
+   * End a user's break-glass activation before it expires.
+   */
+  deactivateBreakGlass(userId: string, at: Date = new Date()): void {
+    const active = this.breakGlassActivations.get(userId);
+    if (!active) return;
+    this.breakGlassActivations.delete(userId);
+    this.breakGlass!.sink({ type: 'deactivated', at: at.toISOString(), activation: active.activation });
+  }
+
+  /**
+   * Send a decision made with the break-glass role to the sink.
+   */
+  private auditBreakGlass(
+    requiredPermission: string,
+    allowed: boolean,
+    { activation, justification }: BreakGlassUse,
+    context?: EnrichedContext
+  ): void {
+    this.breakGlass!.sink({
+      type: 'decision',
+      at: (context?.timestamp ?? new Date()).toISOString(),
+      activation,
+      permission: requiredPermission,
+      allowed,
+      justification
+    });
+  }
+
+  /**
+   * Subscribe to decision records (see DecisionRecord). Returns a function that
+   * unsubscribes.
+   */
+  onDecision(sink: DecisionSink | ((record: DecisionRecord) => void)): () => void {
+    const subscriber = typeof sink === 'function' ? { write: sink } : sink;
+    this.decisionSinks.push(subscriber);
+    return () => {
+      this.decisionSinks = this.decisionSinks.filter(other => other !== subscriber);
+    };
+  }
+
+  /**
+   * Hash of the config checks are evaluated against: the tenant's effective config
+   * for an organization ID, the base config otherwise. Changes with every config update.
+   */
+  getConfigVersion(organizationId?: string): string {
+    return this.configVersion(this.policyFor({ organizationId }));
+  }
+
+  private configVersion({ config }: CompiledPolicy): string {
+    let version = this.configVersions.get(config);
+    if (version === undefined) {
+      version = hashConfig(config);
+      this.configVersions.set(config, version);
+    }
+    return version;
+  }
+
+  /**
+   * Evaluate a public check between startDecision and observe. A check that throws is
+   * still reported: the metrics count the error and its span ends with an error status.
+   */
+  private decide(
+    userPermissions: readonly string[] | string[] | Set<string> | Delegation,
+    requiredPermission: string,
+    context: EnrichedContext | undefined,
+    evaluate: () => EvaluationResult
+  ): EvaluationResult {
+    const trace = this.startDecision(requiredPermission, context);
+    let result: EvaluationResult;
+    try {
+      result = evaluate();
+    } catch (error) {
+      this.observeError(trace, requiredPermission, error);
+      throw error;
+    }
+    this.observe(trace, userPermissions, requiredPermission, context, result);
+    return result;
+  }
+
+  private async decideAsync(
+    userPermissions: readonly string[] | string[] | Set<string> | Delegation,
+    requiredPermission: string,
+    context: EnrichedContext | undefined,
+    evaluate: () => Promise<EvaluationResult>
+  ): Promise<EvaluationResult> {
+    const trace = this.startDecision(requiredPermission, context);
+    let result: EvaluationResult;
+    try {
+      result = await evaluate();
+    } catch (error) {
+      this.observeError(trace, requiredPermission, error);
+      throw error;
+    }
+    this.observe(trace, userPermissions, requiredPermission, context, result);
+    return result;
+  }
+
+  /**
+   * Start instrumenting a public check: undefined unless metrics, tracing or a sampled
+   * decision log needs it, so uninstrumented checks pay nothing more than this test.
+   */
+  private startDecision(requiredPermission: string, context?: EnrichedContext): DecisionTrace | undefined {
+    const logged = this.decisionSinks.length > 0 && Math.random() < this.decisionLog.sampleRate;
+    if (!logged && !this.metrics && !this.tracer) return undefined;
+
+    const subject = context?.userId ?? context?.subject;
+    const span = this.tracer?.startSpan('authz.check', {
+      'authz.permission': requiredPermission,
+      ...(subject !== undefined ? { 'authz.subject': subject } : {}),
+      ...(context?.organizationId !== undefined ? { 'authz.organization_id': context.organizationId } : {})
+    });
+    return { started: performance.now(), logged, span };
+  }
+
+  /**
+   * Report a decision made by a public check: its use of the break-glass role, and,
+   * when instrumented, its metrics, span and decision record.
+   */
+  private observe(
+    trace: DecisionTrace | undefined,
+    userPermissions: readonly string[] | string[] | Set<string> | Delegation,
+    requiredPermission: string,
+    context: EnrichedContext | undefined,
+    result: EvaluationResult
+  ): void {
+    const latencyMs = trace ? performance.now() - trace.started : 0;
+    if (trace) {
+      // Metrics are labelled by permission type: one series per instance would be unbounded
+      this.metrics?.recordCheck(this.splitInstance(requiredPermission).permission, result.allowed, latencyMs);
+      trace.span?.setAttributes({
+        'authz.allowed': result.allowed,
+        ...(result.allowed ? { 'authz.path': result.match.path } : {}),
+        ...(result.breakGlass ? { 'authz.break_glass': true } : {})
+      });
+      trace.span?.end();
+    }
+    if (result.breakGlass) this.auditBreakGlass(requiredPermission, result.allowed, result.breakGlass, context);
+    if (!trace?.logged) return;
+
+    const predicates = result.allowed ? result.match.predicates ?? [] : result.evaluated;
+    const subject = context?.userId ?? context?.subject;
+    const record: DecisionRecord = {
+      at: (context?.timestamp ?? new Date()).toISOString(),
+      ...(subject !== undefined ? { subject } : {}),
+      permission: requiredPermission,
+      allowed: result.allowed,
+      ...(result.allowed ? { matchedVia: result.match } : result.deniedBy ? { deniedBy: result.deniedBy } : {}),
+      failedPredicates: Array.from(new Set(predicates.filter(p => !p.passed).map(p => p.name))),
+      ...(result.errors ? { predicateErrors: result.errors } : {}),
+      latencyMs,
+      configVersion: this.configVersion(this.policyFor(context)),
+      ...(context?.organizationId !== undefined ? { organizationId: context.organizationId } : {}),
+      ...(isDelegation(userPermissions) ? { actor: userPermissions.actor, principal: userPermissions.principal } : {}),
+      ...(result.breakGlass ? { breakGlass: true } : {}),
+      ...(context ? { context: this.redactContext(context) } : {})
+    };
+    this.decisionSinks.forEach(sink => sink.write(record));
+  }
+
+  private observeError(trace: DecisionTrace | undefined, requiredPermission: string, error: unknown): void {
+    if (!trace) return;
+    this.metrics?.recordCheckError?.(this.splitInstance(requiredPermission).permission, performance.now() - trace.started);
+    if (trace.span) {
+      const message = errorMessage(error);
+      trace.span.setAttributes({ 'authz.error': message });
+      trace.span.setStatus?.({ code: SPAN_STATUS_ERROR, message });
+      trace.span.end();
+    }
+  }
+
+  private redactContext(context: EnrichedContext): EnrichedContext {
+    const { redactResource } = this.decisionLog;
+    if (context.resource === undefined || redactResource === false) return context;
+    return { ...context, resource: redactResource === true ? '[redacted]' : redactResource(context.resource) };
+  }
+
+  private subjectContext(subjectId: string, context?: EnrichedContext): EnrichedContext {
+    const subject = this.assignments.get(subjectId);
+    return {
+      userId: subjectId,
+      ...(subject ? { subject: `${subject.type}:${subject.id}` } : {}),
+      ...context
+    };
+  }
+
+  /**
+   * The context a delegated check runs in. Unlike subjectContext, the principal replaces
+   * any user or subject in the caller's context, so predicates and relations always see
+   * the principal rather than the actor.
+   */
+  private principalContext(principal: string, context?: EnrichedContext): EnrichedContext {
+    const result: EnrichedContext = { ...context, userId: principal };
+    delete result.subject;
+    const subject = this.assignments.get(principal);
+    if (subject) result.subject = `${subject.type}:${subject.id}`;
+    return result;
+  }
+
+  private requireSubject(subjectId: string): Subject {
+    const subject = this.assignments.get(subjectId);
+    if (!subject) {
+      throw new Error(`Unknown subject '${subjectId}'.`);
+    }
+    return subject;
+  }
+
+  private roleExists(roleId: string): boolean {
+    if (this.policy.config.roles?.[roleId]) return true;
+    return Array.from(this.tenantPolicies.values()).some(policy => !!policy.config.roles?.[roleId]);
+  }
+
+  /**
+   * Get the config the current policy was compiled from
+   */
+  getConfig(): RBACConfig {
+    return this.policy.config;
+  }
+
+  /**
+   * Compile a config into the lookup structures used at check-time.
+   * When a previous policy is given, its closure rows are reused where unaffected.
+   */
+  private compilePolicy(config: RBACConfig, previous?: CompiledPolicy): CompiledPolicy {
+    const allPermissions = this.generateAllPermissions(config);
+    this.validateRolePermissions(config, allPermissions);
+    this.validateRelations(config, allPermissions);
+    const graph = this.buildPermissionGraph(config, allPermissions);
+    this.detectCircularDependencies(graph, allPermissions);
+    const closure = previous
+      ? previous.closure.update(allPermissions, graph.grants)
+      : CompiledGraph.fromDirectGraph(allPermissions, graph.grants);
+    const { conditionalGrants, denyRules, instanceRules } = this.indexRoleRules(config, closure, allPermissions);
+    const constraints = this.compileConstraints(config, closure);
+    this.validateBreakGlassRole(config, closure);
+
+    return {
+      config,
+      allPermissions,
+      closure,
+      conditionalGrants,
+      blockedBy: this.buildDenyIndex(denyRules, closure, allPermissions),
+      instanceGrants: this.buildInstanceIndex(instanceRules, closure, allPermissions),
+      relationGrants: this.indexRelations(config, closure),
+      methodMap: this.generateSemanticMethods(config, allPermissions),
+      constraints
+    };
+  }
+
+  /**
+   * Resolve the config's separation-of-duty constraints and check every role against
+   * them, including the roles and permissions it inherits.
+   */
+  private compileConstraints(config: RBACConfig, closure: CompiledGraph): CompiledConstraint[] {
+    const constraints = compileConstraints(config.constraints ?? [], closure);
+    if (constraints.length === 0) return constraints;
+
+    Object.keys(config.roles ?? {}).forEach(roleId => {
+      const violation = findViolation(constraints, closure, [closure.idOf(`role:${roleId}`)!]);
+      if (violation) {
+        throw new Error(`Role '${roleId}' violates separation-of-duty constraint '${violation.constraint}': it ${describeViolation(violation)}.`);
+      }
+    });
+    return constraints;
+  }
+
+  /**
+   * The break-glass role must exist, and no other role may inherit it: it is only ever
+   * held through an activation.
+   */
+  private validateBreakGlassRole(config: RBACConfig, closure: CompiledGraph): void {
+    if (!this.breakGlass) return;
+    const { role } = this.breakGlass;
+    const emergencyId = closure.idOf(`role:${role}`);
+    if (!config.roles?.[role] || emergencyId === undefined) {
+      throw new Error(`Break-glass role '${role}' is not defined.`);
+    }
+    Object.keys(config.roles).forEach(roleId => {
+      if (roleId !== role && closure.grants(closure.idOf(`role:${roleId}`)!, emergencyId)) {
+        throw new Error(`Role '${roleId}' inherits the break-glass role '${role}', which can only be activated.`);
+      }
+    });
+  }
+
   /**
    * Validate that all permissions assigned to roles actually exist,
    * and that any referenced predicates are registered.
    */
-  private validateRolePermissions(): void {
-    if (!this.config.roles) return;
+  private validateRolePermissions(config: RBACConfig, allPermissions: Set<string>): void {
+    if (!config.roles) return;
 
-    Object.entries(this.config.roles).forEach(([roleId, role]) => {
+    Object.entries(config.roles).forEach(([roleId, role]) => {
       role.permissions.forEach(entry => {
-        const { permission, predicates } = this.normalizeRoleEntry(entry);
+        const { permission, instance, predicates, deny, window } = this.normalizeRoleEntry(entry);
+        const label = this.joinInstance(permission, instance);
 
         if (permission.startsWith('role:')) {
+          if (instance !== undefined) {
+            throw new Error(`Role '${roleId}' cannot target an instance of a role reference '${label}'.`);
+          }
+          if (deny) {
+            throw new Error(`Role '${roleId}' cannot deny a role reference '${permission}'. Deny the concrete permissions instead.`);
+          }
           if (predicates.length > 0) {
             throw new Error(`Role '${roleId}' cannot attach conditions to a role reference '${permission}'. Conditions belong on concrete permissions.`);
           }
-          if (!this.allPermissions.has(permission)) {
+          if (window) {
+            throw new Error(`Role '${roleId}' cannot attach a validity window to a role reference '${permission}'. Windows belong on concrete permissions or role assignments.`);
+          }
+          if (!allPermissions.has(permission)) {
             throw new Error(`Invalid role reference '${permission}' in role '${roleId}'. Role does not exist.`);
           }
           return;
         }
 
-        if (!this.allPermissions.has(permission)) {
-          throw new Error(`Invalid permission '${permission}' found in role '${roleId}'. This permission does not exist in the configured modules or hierarchy.`);
+        if (isPermissionPattern(permission)) {
+          if (expandPermissionPattern(permission, allPermissions).length === 0) {
+            throw new Error(`Permission pattern '${label}' in role '${roleId}' matches no configured permissions.`);
+          }
+        } else if (!allPermissions.has(permission)) {
+          const [resource, action] = permission.split(':');
+          if (resource !== '*' && action && allPermissions.has(`${resource}:*`)) {
+            throw new Error(`Invalid permission '${label}' found in role '${roleId}'. Action '${action}' is not defined for '${resource}'.`);
+          }
+          throw new Error(`Invalid permission '${label}' found in role '${roleId}'. This permission does not exist in the configured modules or hierarchy.`);
         }
 
-        for (const predName of predicates) {
-          if (!this.predicates.has(predName)) {
-            throw new Error(`Role '${roleId}' references unknown predicate '${predName}' on permission '${permission}'. Register it via PermissionServiceOptions.predicates.`);
-          }
+        if (deny && instance !== undefined) {
+          throw new Error(`Role '${roleId}' cannot deny a single instance '${label}'. Denies apply to every instance of a permission.`);
         }
+
+        predicates.forEach(condition => this.validateCondition(roleId, label, condition));
       });
 
       if (role.inherits) {
         role.inherits.forEach(inheritedRole => {
           const rolePermission = `role:${inheritedRole}`;
-          if (!this.allPermissions.has(rolePermission)) {
+          if (!allPermissions.has(rolePermission)) {
              throw new Error(`Role '${roleId}' inherits from non-existent role '${inheritedRole}'.`);
           }
         });
@@ -126,23 +1194,184 @@ export class PermissionService {
   }
 
   /**
-   * Normalize a role permission entry (string or ConditionalPermission) into a common shape.
+   * Validate relation definitions: resources and permissions must exist, and
+   * referenced relations must be defined on the same object type.
+   */
+  private validateRelations(config: RBACConfig, allPermissions: Set<string>): void {
+    Object.entries(config.relations ?? {}).forEach(([type, definition]) => {
+      if (/[:#@]/.test(type)) {
+        throw new Error(`Invalid object type '${type}'. Object types cannot contain ':', '#' or '@'.`);
+      }
+      const { resource } = definition;
+      if (resource !== undefined && !allPermissions.has(`${resource}:*`)) {
+        throw new Error(`Object type '${type}' maps to unknown resource '${resource}'.`);
+      }
+
+      Object.entries(definition.relations).forEach(([relation, rule]) => {
+        (rule.permissions ?? []).forEach(permission => {
+          if (resource === undefined) {
+            throw new Error(`Relation '${type}#${relation}' grants '${permission}' but object type '${type}' has no resource.`);
+          }
+          if (!allPermissions.has(permission) || !permission.startsWith(`${resource}:`)) {
+            throw new Error(`Relation '${type}#${relation}' grants invalid permission '${permission}'. It must be an action on '${resource}'.`);
+          }
+        });
+
+        const referenced = [...(rule.includes ?? []), ...(rule.fromParent ?? []).map(p => p.through)];
+        referenced.forEach(name => {
+          if (!definition.relations[name]) {
+            throw new Error(`Relation '${type}#${relation}' references undefined relation '${name}' on '${type}'.`);
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Index relations by the resource they grant permissions on.
+   */
+  private indexRelations(config: RBACConfig, closure: CompiledGraph): Map<string, RelationGrant[]> {
+    const index = new Map<string, RelationGrant[]>();
+    Object.entries(config.relations ?? {}).forEach(([type, { resource, relations }]) => {
+      if (resource === undefined) return;
+      Object.entries(relations).forEach(([relation, rule]) => {
+        if (!rule.permissions?.length) return;
+        const list = index.get(resource) ?? [];
+        list.push({ type, relation, permissionIds: rule.permissions.map(p => closure.idOf(p)!) });
+        index.set(resource, list);
+      });
+    });
+    return index;
+  }
+
+  /**
+   * A condition is valid if it names a registered predicate, is an expression that
+   * parses and type-checks (it is compiled once here and cached), or composes valid conditions.
+   */
+  private validateCondition(roleId: string, permission: string, condition: Condition): void {
+    if (typeof condition === 'object' && condition !== null && !('expr' in condition) && !('name' in condition)) {
+      const children = 'not' in condition ? [condition.not] : 'anyOf' in condition ? condition.anyOf : condition.allOf;
+      if (!Array.isArray(children) || children.length === 0) {
+        throw new Error(`Role '${roleId}' has an empty or malformed condition on permission '${permission}'. anyOf/allOf need at least one condition.`);
+      }
+      children.forEach(child => this.validateCondition(roleId, permission, child));
+      return;
+    }
+    if (typeof condition === 'string' || 'name' in condition) {
+      const name = typeof condition === 'string' ? condition : condition.name;
+      const predicate = this.predicates.get(name);
+      if (!predicate) {
+        throw new Error(`Role '${roleId}' references unknown predicate '${name}' on permission '${permission}'. Register it via PermissionServiceOptions.predicates.`);
+      }
+      const problem = this.checkPredicateArgs(predicate, typeof condition === 'string' ? undefined : condition.args);
+      if (problem) {
+        throw new Error(`Role '${roleId}' passes invalid arguments to predicate '${name}' on permission '${permission}': ${problem}.`);
+      }
+      return;
+    }
+    if (this.expressions.has(condition.expr)) return;
+    try {
+      this.expressions.set(condition.expr, compileExpression(condition.expr));
+    } catch (error) {
+      throw new Error(`Role '${roleId}' has an invalid condition on permission '${permission}': ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Check a grant's arguments against the predicate's schema. Returns the first problem found.
+   */
+  private checkPredicateArgs(predicate: RegisteredPredicate, args: Record<string, unknown> = {}): string | undefined {
+    const schema = predicate.args;
+    if (!schema) {
+      return Object.keys(args).length > 0 ? 'it takes no arguments' : undefined;
+    }
+
+    const unknown = Object.keys(args).find(key => !(key in schema));
+    if (unknown) return `unknown argument '${unknown}'`;
+
+    for (const [key, spec] of Object.entries(schema)) {
+      const value = args[key];
+      if (value === undefined) {
+        if (!spec.optional && spec.default === undefined) return `missing required argument '${key}'`;
+        continue;
+      }
+
+      if (spec.type === 'any') {
+        const problem = spec.validate?.(value);
+        if (problem) return `argument '${key}' ${problem}`;
+        continue;
+      }
+
+      const items = spec.type.endsWith('[]') ? value : [value];
+      const itemType = spec.type.replace('[]', '');
+      if (!Array.isArray(items) || items.some(item => typeof item !== itemType)) {
+        return `argument '${key}' must be ${spec.type}`;
+      }
+      for (const item of items) {
+        if (spec.enum && !spec.enum.includes(item as string | number)) {
+          return `argument '${key}' must be one of ${spec.enum.join(', ')}`;
+        }
+        if ((spec.min !== undefined && (item as number) < spec.min) || (spec.max !== undefined && (item as number) > spec.max)) {
+          return `argument '${key}' must be between ${spec.min ?? '-∞'} and ${spec.max ?? '∞'}`;
+        }
+      }
+      const problem = spec.validate?.(value);
+      if (problem) return `argument '${key}' ${problem}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Normalize a role permission entry (string, ConditionalPermission or DenyPermission) into a common shape.
+   */
+  private normalizeRoleEntry(entry: RolePermissionEntry): NormalizedEntry {
+    if (typeof entry === 'string') {
+      return { ...this.splitInstance(entry), predicates: [], deny: false };
+    }
+    if ('deny' in entry) {
+      return { ...this.splitInstance((entry as DenyPermission).deny), predicates: [], deny: true };
+    }
+    const cond = entry as ConditionalPermission;
+    const predicates = cond.when === undefined ? [] : Array.isArray(cond.when) ? cond.when : [cond.when];
+    const window = parseWindow(cond, `permission '${cond.permission}'`);
+    return { ...this.splitInstance(cond.permission), predicates, deny: false, window };
+  }
+
+  /**
+   * A role's entries, normalized, with permission patterns ("posts.*:update")
+   * expanded into one entry per matching permission.
+   */
+  private roleEntries(role: Role, allPermissions: Set<string>): NormalizedEntry[] {
+    return role.permissions.flatMap(entry => {
+      const normalized = this.normalizeRoleEntry(entry);
+      if (!isPermissionPattern(normalized.permission)) return [normalized];
+      return expandPermissionPattern(normalized.permission, allPermissions)
+        .map(permission => ({ ...normalized, permission }));
+    });
+  }
+
+  /**
+   * Split an instance-level permission ("posts.content:update#123") into its base
+   * permission and instance ID. Permissions without '#' have no instance.
    */
-  private normalizeRoleEntry(entry: RolePermissionEntry): { permission: string; predicates: string[] } {
-    if (typeof entry === 'string') {
-      return { permission: entry, predicates: [] };
-    }
-    const cond = entry as ConditionalPermission;
-    const predicates = Array.isArray(cond.when) ? cond.when : [cond.when];
-    return { permission: cond.permission, predicates };
+  private splitInstance(permission: string): { permission: string; instance?: string } {
+    const hash = permission.indexOf('#');
+    if (hash === -1) return { permission };
+    return { permission: permission.slice(0, hash), instance: permission.slice(hash + 1) };
+  }
+
+  private joinInstance(permission: string, instance?: string): string {
+    return instance === undefined ? permission : `${permission}#${instance}`;
   }
 
   /**
    * Generate semantic method names for all permissions
    */
-  private generateSemanticMethods(): void {
+  private generateSemanticMethods(config: RBACConfig, allPermissions: Set<string>): Map<string, string> {
+    const methodMap = new Map<string, string>();
+
     // 1. Track resource usage to detect duplicates for short names
-    this.allPermissions.forEach(permission => {
+    allPermissions.forEach(permission => {
       // Skip wildcards
       if (permission.includes('*')) return;
       if (permission.startsWith('role:')) return;
@@ -150,49 +1379,60 @@ export class PermissionService {
       const [resourcePart, action] = permission.split(':');
       if (!resourcePart || !action) return;
 
-      const parts = resourcePart.split('.');
-      
-      if (parts.length === 1) {
-        // Module level: "users:read" -> "readUsers"
-        const moduleName = this.capitalize(parts[0]);
-        const methodName = `${action}${moduleName}`;
-        this.methodMap.set(methodName, permission);
-      } else if (parts.length === 2) {
-        // Resource level: "store.orders:read" 
-        const moduleName = this.capitalize(parts[0]);
-        const resourceName = this.capitalize(parts[1]);
-
-        // Long name: "readStoreOrders" (Always generated, always safe)
-        const longName = `${action}${moduleName}${resourceName}`;
-        this.methodMap.set(longName, permission);
-      }
+      // Module level: "users:read" -> "readUsers"
+      // Resource level, any depth: "store.orders:read" -> "readStoreOrders" (always generated, always safe)
+      const methodName = `${action}${resourcePart.split('.').map(part => this.capitalize(part)).join('')}`;
+      methodMap.set(methodName, permission);
     });
     
     // Better Uniqueness Check using Config
+    const resources = this.resourceNodes(config).filter(node => node.depth > 0);
     const resourceCounts = new Map<string, number>();
-    Object.values(this.config.modules).forEach(resources => {
-      resources.forEach(resource => {
-        resourceCounts.set(resource, (resourceCounts.get(resource) || 0) + 1);
-      });
+    resources.forEach(({ name }) => {
+      resourceCounts.set(name, (resourceCounts.get(name) || 0) + 1);
     });
 
     // Generate Short Names
-    Object.entries(this.config.modules).forEach(([module, resources]) => {
-      resources.forEach(resource => {
-        // If resource is unique (count === 1), generate short methods
-        if (resourceCounts.get(resource) === 1) {
-           this.ACTIONS.forEach(action => {
-             const permission = `${module}.${resource}:${action}`;
-             // Short name: "readOrders"
-             const methodName = `${action}${this.capitalize(resource)}`;
-             // Only set if not already taken (precaution)
-             if (!this.methodMap.has(methodName)) {
-               this.methodMap.set(methodName, permission);
-             }
-           });
-        }
-      });
+    resources.forEach(({ path, name, hierarchy }) => {
+      // If resource is unique (count === 1), generate short methods
+      if (resourceCounts.get(name) === 1) {
+         Object.keys(hierarchy).forEach(action => {
+           const permission = `${path}:${action}`;
+           // Short name: "readOrders"
+           const methodName = `${action}${this.capitalize(name)}`;
+           // Only set if not already taken (precaution)
+           if (!methodMap.has(methodName)) {
+             methodMap.set(methodName, permission);
+           }
+         });
+      }
     });
+
+    return methodMap;
+  }
+
+  /**
+   * Actions and their implications, from the config or the default CRUD hierarchy
+   */
+  private resolveActions(config: RBACConfig): { actions: string[]; hierarchy: Record<string, string[]> } {
+    const hierarchy = config.hierarchy ?? DEFAULT_ACTION_HIERARCHY;
+    return { actions: Object.keys(hierarchy), hierarchy };
+  }
+
+  /**
+   * Every module and resource with the action hierarchy in effect there, parents first
+   */
+  private resourceNodes(config: RBACConfig): ResourceNode[] {
+    return flattenModules(config.modules, this.resolveActions(config).hierarchy);
+  }
+
+  /**
+   * The global actions plus any declared by individual modules or resources
+   */
+  private allActions(config: RBACConfig, nodes: ResourceNode[] = this.resourceNodes(config)): string[] {
+    const actions = new Set(this.resolveActions(config).actions);
+    nodes.forEach(({ hierarchy }) => Object.keys(hierarchy).forEach(action => actions.add(action)));
+    return Array.from(actions);
   }
 
   private capitalize(str: string): string {
@@ -203,29 +1443,20 @@ export class PermissionService {
    * Generate all possible permissions from config
    */
   private generateAllPermissions(config: RBACConfig): Set<string> {
+    const nodes = this.resourceNodes(config);
     const permissions = new Set<string>();
 
     // Add wildcard permissions (*:read, etc.)
-    this.ACTIONS.forEach(action => {
+    this.allActions(config, nodes).forEach(action => {
       permissions.add(`*:${action}`);
     });
 
-    // Add module and resource permissions
-    Object.entries(config.modules).forEach(([module, resources]) => {
-      // Resource-level wildcard (e.g., "users:*")
-      permissions.add(`${module}:*`);
-
-      // Module-level permissions (e.g., "users:read")
-      this.ACTIONS.forEach(action => {
-        permissions.add(`${module}:${action}`);
-      });
-
-      // Resource-level permissions (e.g., "users.profile:read")
-      resources.forEach(resource => {
-        permissions.add(`${module}.${resource}:*`);
-        this.ACTIONS.forEach(action => {
-          permissions.add(`${module}.${resource}:${action}`);
-        });
+    // Add module and resource permissions at every depth, for the actions defined there
+    // (e.g., "users:*", "users:read", "users.profile:read", "projects.boards.cards:update")
+    nodes.forEach(({ path, hierarchy }) => {
+      permissions.add(`${path}:*`);
+      Object.keys(hierarchy).forEach(action => {
+        permissions.add(`${path}:${action}`);
       });
     });
 
@@ -242,7 +1473,9 @@ export class PermissionService {
   /**
    * Build initial permission graph with direct relationships
    */
-  private buildPermissionGraph(config: RBACConfig): PermissionGraph {
+  private buildPermissionGraph(config: RBACConfig, allPermissions: Set<string>): PermissionGraph {
+    const { hierarchy } = this.resolveActions(config);
+    const nodes = this.resourceNodes(config);
     const grants = new Map<string, Set<string>>();
     const grantedBy = new Map<string, Set<string>>();
 
@@ -255,61 +1488,51 @@ export class PermissionService {
     };
 
     // 1. Build CRUD hierarchy within each resource/module
-    const applyHierarchy = (prefix: string) => {
+    const applyHierarchy = (prefix: string, levelHierarchy: Record<string, string[]>, actions: string[]) => {
       // Iterate through the hierarchy configuration
-      Object.entries(this.ACTION_HIERARCHY).forEach(([action, impliedActions]) => {
+      Object.entries(levelHierarchy).forEach(([action, impliedActions]) => {
         impliedActions.forEach(impliedAction => {
           addGrant(`${prefix}:${action}`, `${prefix}:${impliedAction}`);
         });
       });
 
       // Support for resource-level wildcard
-      this.ACTIONS.forEach(action => {
+      actions.forEach(action => {
         addGrant(`${prefix}:*`, `${prefix}:${action}`);
       });
     };
 
     // Apply to global wildcard
-    applyHierarchy('*');
-
-    Object.entries(config.modules).forEach(([module, resources]) => {
-      applyHierarchy(module);
-
-      resources.forEach(resource => {
-        const resourceName = `${module}.${resource}`;
-        applyHierarchy(resourceName);
-
-        // Module-level permissions cascade to resources
-        this.ACTIONS.forEach(action => {
-          addGrant(`${module}:${action}`, `${resourceName}:${action}`);
-        });
-        addGrant(`${module}:*`, `${resourceName}:*`);
-      });
-    });
-
-    // 2. Global wildcard permissions cascade to specific modules
-    this.ACTIONS.forEach(action => {
-      const globalAction = `*:${action}`;
-      Object.keys(config.modules).forEach(module => {
-        addGrant(globalAction, `${module}:${action}`);
+    applyHierarchy('*', hierarchy, this.allActions(config, nodes));
+
+    const hierarchyAt = new Map(nodes.map(node => [node.path, node.hierarchy]));
+    nodes.forEach(({ path, parent, hierarchy: levelHierarchy }) => {
+      const actions = Object.keys(levelHierarchy);
+      applyHierarchy(path, levelHierarchy, actions);
+
+      const inherited = parent === undefined ? undefined : hierarchyAt.get(parent)!;
+      actions.forEach(action => {
+        if (inherited && Object.prototype.hasOwnProperty.call(inherited, action)) {
+          // 2. Each level's permissions cascade to its child resources
+          addGrant(`${parent}:${action}`, `${path}:${action}`);
+        } else {
+          // 3. Global wildcards cascade to the topmost modules/resources defining the action
+          addGrant(`*:${action}`, `${path}:${action}`);
+        }
       });
+      if (parent !== undefined) addGrant(`${parent}:*`, `${path}:*`);
     });
 
-    // 3. Role Inheritance and Permissions
+    // 4. Role Inheritance and Permissions
     if (config.roles) {
       Object.entries(config.roles).forEach(([roleId, role]) => {
         const roleNode = `role:${roleId}`;
 
-        role.permissions.forEach(entry => {
-          const { permission, predicates } = this.normalizeRoleEntry(entry);
-          if (predicates.length === 0) {
-            // Plain grant becomes an unconditional edge, participates in FW closure.
+        this.roleEntries(role, allPermissions).forEach(({ permission, instance, predicates, deny, window }) => {
+          // Plain grant becomes an unconditional edge, participates in the closure.
+          // Conditional, time-bound, instance-level and deny entries are indexed separately (see indexRoleRules).
+          if (!deny && predicates.length === 0 && instance === undefined && window === undefined) {
             addGrant(roleNode, permission);
-          } else {
-            // Conditional grants live outside the graph; evaluated at check-time.
-            const list = this.conditionalGrants.get(roleNode) ?? [];
-            list.push({ permission, predicates });
-            this.conditionalGrants.set(roleNode, list);
           }
         });
 
@@ -327,7 +1550,7 @@ export class PermissionService {
   /**
    * Detect circular dependencies in the graph before transitive closure
    */
-  private detectCircularDependencies(): void {
+  private detectCircularDependencies(graph: PermissionGraph, allPermissions: Set<string>): void {
     const visited = new Set<string>();
     const stack = new Set<string>();
 
@@ -340,7 +1563,7 @@ export class PermissionService {
       visited.add(node);
       stack.add(node);
 
-      const targets = this.graph.grants.get(node);
+      const targets = graph.grants.get(node);
       if (targets) {
         for (const target of targets) {
           check(target);
@@ -350,40 +1573,270 @@ export class PermissionService {
       stack.delete(node);
     };
 
-    for (const node of this.allPermissions) {
+    for (const node of allPermissions) {
       check(node);
     }
   }
 
   /**
-   * Floyd-Warshall algorithm to compute transitive closure
+   * Collect the role entries that live outside the closure: conditional grants
+   * (evaluated at check-time) keyed by role ID, and denies and unconditional
+   * instance grants keyed by role node.
    */
-  private applyFloydWarshallTransitiveClosure(): void {
-    const allPermissions = Array.from(this.allPermissions);
+  private indexRoleRules(
+    config: RBACConfig,
+    closure: CompiledGraph,
+    allPermissions: Set<string>
+  ): {
+    conditionalGrants: Map<number, ConditionalGrant[]>;
+    denyRules: Map<string, string[]>;
+    instanceRules: Map<string, { instance: string; permission: string }[]>;
+  } {
+    const conditionalGrants = new Map<number, ConditionalGrant[]>();
+    const denyRules = new Map<string, string[]>();
+    const instanceRules = new Map<string, { instance: string; permission: string }[]>();
+    if (!config.roles) return { conditionalGrants, denyRules, instanceRules };
+
+    Object.keys(config.roles).forEach(roleId => {
+      const roleNode = `role:${roleId}`;
+      this.roleEntries(config.roles![roleId], allPermissions).forEach(({ permission, instance, predicates, deny, window }) => {
+        if (deny) {
+          const list = denyRules.get(roleNode) ?? [];
+          list.push(permission);
+          denyRules.set(roleNode, list);
+        } else if (predicates.length > 0 || window !== undefined) {
+          const id = closure.idOf(roleNode)!;
+          const list = conditionalGrants.get(id) ?? [];
+          list.push({
+            permission: this.joinInstance(permission, instance),
+            permissionId: closure.idOf(permission)!,
+            instance,
+            predicates,
+            window
+          });
+          conditionalGrants.set(id, list);
+        } else if (instance !== undefined) {
+          const list = instanceRules.get(roleNode) ?? [];
+          list.push({ instance, permission });
+          instanceRules.set(roleNode, list);
+        }
+      });
+    });
 
-    for (const k of allPermissions) {
-      for (const i of allPermissions) {
-        if (this.graph.grants.get(i)?.has(k)) {
-          for (const j of allPermissions) {
-            if (this.graph.grants.get(k)?.has(j)) {
-              this.graph.grants.get(i)?.add(j);
-              this.graph.grantedBy.get(j)?.add(i);
-            }
-          }
+    return { conditionalGrants, denyRules, instanceRules };
+  }
+
+  /**
+   * Index unconditional instance grants per role and instance ID, including those
+   * inherited from parent roles.
+   */
+  private buildInstanceIndex(
+    instanceRules: Map<string, { instance: string; permission: string }[]>,
+    closure: CompiledGraph,
+    allPermissions: Set<string>
+  ): Map<number, Map<string, InstanceGrant[]>> {
+    const index = new Map<number, Map<string, InstanceGrant[]>>();
+    if (instanceRules.size === 0) return index;
+
+    allPermissions.forEach(node => {
+      if (!node.startsWith('role:')) return;
+      const nodeId = closure.idOf(node)!;
+      const roles = [node];
+      closure.forEachGranted(nodeId, granted => {
+        const name = closure.nameOf(granted);
+        if (name.startsWith('role:')) roles.push(name);
+      });
+
+      const byInstance = new Map<string, InstanceGrant[]>();
+      roles.forEach(role => {
+        instanceRules.get(role)?.forEach(({ instance, permission }) => {
+          const list = byInstance.get(instance) ?? [];
+          list.push({ permission: this.joinInstance(permission, instance), permissionId: closure.idOf(permission)! });
+          byInstance.set(instance, list);
+        });
+      });
+      if (byInstance.size > 0) index.set(nodeId, byInstance);
+    });
+
+    return index;
+  }
+
+  /**
+   * Index every permission blocked by explicit denies, per role, including denies
+   * inherited from parent roles. A deny on X blocks X, the same action on X's narrower
+   * scopes (or every action when X is a wildcard), and anything that grants one of those.
+   */
+  private buildDenyIndex(
+    denyRules: Map<string, string[]>,
+    closure: CompiledGraph,
+    allPermissions: Set<string>
+  ): BlockedIndex {
+    const actionOf = (permission: string) => permission.split(':')[1];
+
+    const blockedByRole = new Map<number, Map<number, string>>();
+    denyRules.forEach((denies, roleNode) => {
+      const blocked = new Map<number, string>();
+      for (const deny of denies) {
+        const action = actionOf(deny);
+        const denyId = closure.idOf(deny)!;
+        const scope = [denyId];
+        closure.forEachGranted(denyId, granted => {
+          if (action === '*' || actionOf(closure.nameOf(granted)) === action) scope.push(granted);
+        });
+
+        const grantors = closure
+          .grantorsOfAny(scope)
+          .filter(grantor => !closure.nameOf(grantor).startsWith('role:'));
+        for (const target of [...scope, ...grantors]) {
+          if (!blocked.has(target)) blocked.set(target, deny);
         }
       }
+      blockedByRole.set(closure.idOf(roleNode)!, blocked);
+    });
+
+    const blockedBy: BlockedIndex = new Map();
+    if (blockedByRole.size === 0) return blockedBy;
+
+    allPermissions.forEach(node => {
+      if (!node.startsWith('role:')) return;
+      const nodeId = closure.idOf(node)!;
+      const roles = [nodeId];
+      closure.forEachGranted(nodeId, granted => {
+        if (closure.nameOf(granted).startsWith('role:')) roles.push(granted);
+      });
+
+      const merged = new Map<number, { role: string; deny: string }>();
+      for (const role of roles) {
+        blockedByRole.get(role)?.forEach((deny, permission) => {
+          if (!merged.has(permission)) merged.set(permission, { role: closure.nameOf(role), deny });
+        });
+      }
+      if (merged.size > 0) blockedBy.set(nodeId, merged);
+    });
+
+    return blockedBy;
+  }
+
+  private findViolation(
+    userPermissions: readonly string[] | string[] | Set<string>,
+    policy: CompiledPolicy
+  ): ConstraintViolation | undefined {
+    const held: number[] = [];
+    for (const rawPerm of userPermissions) {
+      const id = policy.closure.idOf(this.toNode(rawPerm, policy));
+      if (id !== undefined) held.push(id);
+    }
+    return findViolation(policy.constraints, policy.closure, held);
+  }
+
+  /**
+   * Map a bare role ID to its graph node; other permissions are returned unchanged.
+   */
+  private toNode(userPerm: string, policy: CompiledPolicy = this.policy): string {
+    const { roles } = policy.config;
+    if (roles && roles[userPerm] && !userPerm.startsWith('role:')) {
+      return `role:${userPerm}`;
     }
+    return userPerm;
   }
 
   /**
    * Check if user has required permission
    */
   hasPermission(
-    userPermissions: readonly string[] | string[] | Set<string>,
+    userPermissions: readonly string[] | string[] | Set<string> | Delegation,
     requiredPermission: string,
     context?: EnrichedContext
   ): boolean {
-    return this.evaluate(userPermissions, requiredPermission, context).allowed;
+    return this.decide(userPermissions, requiredPermission, context, () =>
+      this.evaluate(userPermissions, requiredPermission, context)
+    ).allowed;
+  }
+
+  /**
+   * Like hasPermission, but evaluates async predicates. Every predicate the check can
+   * reach runs in parallel; one that rejects or does not settle within `timeoutMs`
+   * (default: PermissionServiceOptions.predicateTimeoutMs) counts as failed.
+   */
+  async hasPermissionAsync(
+    userPermissions: readonly string[] | string[] | Set<string> | Delegation,
+    requiredPermission: string,
+    context?: EnrichedContext,
+    options: { timeoutMs?: number } = {}
+  ): Promise<boolean> {
+    const result = await this.decideAsync(userPermissions, requiredPermission, context, () =>
+      this.evaluateAsync(userPermissions, requiredPermission, context, options)
+    );
+    return result.allowed;
+  }
+
+  /**
+   * Evaluate a check. Delegations are checked against their derived permission set,
+   * then as the principal; with break-glass access configured, the emergency role is
+   * added for active activations (see evaluateBreakGlass).
+   */
+  private evaluate(
+    userPermissions: readonly string[] | string[] | Set<string> | Delegation,
+    requiredPermission: string,
+    context?: EnrichedContext,
+    predicate?: (leaf: ConditionLeaf) => boolean,
+    shortCircuit = true
+  ): EvaluationResult {
+    if (isDelegation(userPermissions)) {
+      return this.evaluateDelegation(userPermissions, requiredPermission, context, predicate, shortCircuit);
+    }
+    if (this.breakGlass) {
+      return this.evaluateBreakGlass(userPermissions, requiredPermission, context, predicate, shortCircuit);
+    }
+    return this.evaluatePermissions(userPermissions, requiredPermission, context, predicate, shortCircuit);
+  }
+
+  /**
+   * A check with break-glass access configured. The emergency role is never held
+   * directly; when the user's own permissions deny the check, it is retried with the
+   * emergency role if the context's user has an active activation and the context
+   * carries a justification.
+   */
+  private evaluateBreakGlass(
+    userPermissions: readonly string[] | string[] | Set<string>,
+    requiredPermission: string,
+    context: EnrichedContext | undefined,
+    predicate: ((leaf: ConditionLeaf) => boolean) | undefined,
+    shortCircuit: boolean
+  ): EvaluationResult {
+    const emergency = `role:${this.breakGlass!.role}`;
+    const held = Array.from(userPermissions).filter(permission => this.toNode(permission) !== emergency);
+    const result = this.evaluatePermissions(held, requiredPermission, context, predicate, shortCircuit);
+    if (result.allowed) return result;
+
+    const justification = context?.justification?.trim();
+    const active = context?.userId === undefined ? undefined : this.breakGlassActivations.get(context.userId);
+    const now = context?.timestamp?.getTime() ?? Date.now();
+    if (!justification || !active || windowState(active.window, now) !== 'active') return result;
+
+    return {
+      ...this.evaluatePermissions([...held, emergency], requiredPermission, context, predicate, shortCircuit),
+      breakGlass: { activation: active.activation, justification }
+    };
+  }
+
+  /**
+   * Evaluate the user's grants, collecting the errors of the predicates it runs unless
+   * the caller resolves predicates itself.
+   */
+  private evaluatePermissions(
+    userPermissions: readonly string[] | string[] | Set<string>,
+    requiredPermission: string,
+    context?: EnrichedContext,
+    predicate?: (leaf: ConditionLeaf) => boolean,
+    shortCircuit = true
+  ): EvaluationResult {
+    if (predicate) return this.evaluateGrants(userPermissions, requiredPermission, context, predicate, shortCircuit);
+    const errors: PredicateError[] = [];
+    const result = this.evaluateGrants(
+      userPermissions, requiredPermission, context, leaf => this.runCondition(leaf, context, errors), shortCircuit
+    );
+    return errors.length > 0 ? { ...result, errors: this.uniqueErrors(errors) } : result;
   }
 
   /**
@@ -391,108 +1844,438 @@ export class PermissionService {
    * Unconditional path: user permission (or its transitive grants) equals required.
    * Conditional path: user reaches a role whose conditional grant reaches required,
    *                   AND every predicate on that grant evaluates true against ctx.
+   * Relation path: for instance checks, the context's subject holds a relation on the
+   *                object whose permissions reach required.
    */
-  private evaluate(
+  private evaluateGrants(
     userPermissions: readonly string[] | string[] | Set<string>,
     requiredPermission: string,
-    context?: EnrichedContext
+    context: EnrichedContext | undefined,
+    test: (leaf: ConditionLeaf) => boolean,
+    shortCircuit: boolean
   ): EvaluationResult {
-    const permissionSet = userPermissions instanceof Set ? userPermissions : new Set(userPermissions);
+    const policy = this.policyFor(context);
+    const { closure, conditionalGrants, blockedBy, instanceGrants, relationGrants } = policy;
     const evaluatedPredicates: { name: string; passed: boolean }[] = [];
+    // Time-bound grants that reach the required permission but are outside their window
+    const expired: ExpiredMatch[] = [];
+    const now = context?.timestamp?.getTime() ?? Date.now();
+    // Instance-level checks ("posts.content:update#123") resolve against their base permission;
+    // denies, type-level and conditional grants on the base cover every instance.
+    const { permission: requiredBase, instance: requiredInstance } = this.splitInstance(requiredPermission);
+    const requiredId = closure.idOf(requiredBase);
+
+    // Dynamic separation of duty: a permission set violating a constraint is denied everything.
+    if (policy.constraints.length > 0) {
+      const violation = this.findViolation(userPermissions, policy);
+      if (violation) return { allowed: false, evaluated: evaluatedPredicates, violation };
+    }
+
+    // Deny-overrides: an explicit deny on any held role wins before grants are considered.
+    if (blockedBy.size > 0 && requiredId !== undefined) {
+      for (const rawPerm of userPermissions) {
+        const userPerm = this.toNode(rawPerm, policy);
+        const userId = closure.idOf(userPerm);
+        const blocked = userId === undefined ? undefined : blockedBy.get(userId)?.get(requiredId);
+        if (blocked) {
+          return {
+            allowed: false,
+            evaluated: evaluatedPredicates,
+            deniedBy: { userPermission: userPerm, role: blocked.role, deny: blocked.deny }
+          };
+        }
+      }
+    }
 
-    for (let userPerm of permissionSet) {
-      if (this.config.roles && this.config.roles[userPerm] && !userPerm.startsWith('role:')) {
-        userPerm = `role:${userPerm}`;
+    for (const rawPerm of userPermissions) {
+      const userPerm = this.toNode(rawPerm, policy);
+
+      // A held instance permission only reaches the same instance (and its implied actions)
+      if (userPerm.includes('#')) {
+        const { permission: userBase, instance: userInstance } = this.splitInstance(userPerm);
+        const userBaseId = closure.idOf(userBase);
+        const reaches =
+          userPerm === requiredPermission ||
+          (userInstance === requiredInstance &&
+            userBaseId !== undefined &&
+            requiredId !== undefined &&
+            closure.grants(userBaseId, requiredId));
+        if (reaches) {
+          return { allowed: true, match: { userPermission: userPerm, path: 'unconditional' } };
+        }
+        continue;
       }
 
+      const userId = closure.idOf(userPerm);
+
       // Unconditional path
-      if (userPerm === requiredPermission || this.graph.grants.get(userPerm)?.has(requiredPermission)) {
+      if (
+        userPerm === requiredPermission ||
+        userPerm === requiredBase ||
+        (userId !== undefined && requiredId !== undefined && closure.grants(userId, requiredId))
+      ) {
         return {
           allowed: true,
           match: { userPermission: userPerm, path: 'unconditional' }
         };
       }
 
-      // Conditional path: only role nodes can carry conditional grants.
-      // Walk every role reachable from userPerm (including itself), check their conditional grants.
-      const reachable = new Set<string>([userPerm]);
-      const transitive = this.graph.grants.get(userPerm);
-      if (transitive) transitive.forEach(n => reachable.add(n));
-
-      for (const node of reachable) {
-        if (!node.startsWith('role:')) continue;
-        const grants = this.conditionalGrants.get(node);
-        if (!grants) continue;
+      if (userId === undefined || requiredId === undefined) continue;
+
+      // Instance path: roles granting the required action (or one implying it) on this instance
+      if (requiredInstance !== undefined) {
+        const grant = instanceGrants
+          .get(userId)
+          ?.get(requiredInstance)
+          ?.find(({ permissionId }) => permissionId === requiredId || closure.grants(permissionId, requiredId));
+        if (grant) {
+          return {
+            allowed: true,
+            match: { userPermission: userPerm, path: 'instance', instancePermission: grant.permission }
+          };
+        }
+      }
 
-        for (const { permission, predicates } of grants) {
+      // Conditional path: only role nodes carry conditional grants.
+      // Check the user's own role first, then every role it reaches.
+      const tryGrants = (grants: ConditionalGrant[], roleId: number): PermissionMatch | undefined => {
+        for (const { permission, permissionId, instance, predicates, window } of grants) {
           const reachesRequired =
-            permission === requiredPermission ||
-            this.graph.grants.get(permission)?.has(requiredPermission);
+            (instance === undefined || instance === requiredInstance) &&
+            (permissionId === requiredId || closure.grants(permissionId, requiredId));
           if (!reachesRequired) continue;
 
-          const predicateResults = predicates.map(name => ({
-            name,
-            passed: this.runPredicate(name, context)
-          }));
+          // Time-bound grants outside their window are reported, not evaluated
+          const state = windowState(window, now);
+          if (state !== 'active') {
+            const role = closure.nameOf(roleId).slice('role:'.length);
+            if (!expired.some(e => e.role === role && e.permission === permission)) {
+              expired.push({ role, permission, state, ...describeWindow(window!) });
+            }
+            continue;
+          }
+
+          const conditions = this.evaluateCondition(
+            predicates.length === 1 ? predicates[0] : { allOf: predicates },
+            test,
+            shortCircuit
+          );
+          const predicateResults = this.evaluatedLeaves(conditions);
           predicateResults.forEach(r => evaluatedPredicates.push(r));
 
-          if (predicateResults.every(r => r.passed)) {
+          if (conditions.passed) {
             return {
-              allowed: true,
-              match: {
-                userPermission: userPerm,
-                path: 'conditional',
-                conditionalPermission: permission,
-                predicates: predicateResults
-              }
+              userPermission: userPerm,
+              path: 'conditional',
+              conditionalPermission: permission,
+              predicates: predicateResults,
+              conditions,
+              ...(window?.expiresAt !== undefined ? { expiresAt: new Date(window.expiresAt).toISOString() } : {})
             };
           }
         }
+        return undefined;
+      };
+
+      const ownGrants = conditionalGrants.get(userId);
+      let match = ownGrants ? tryGrants(ownGrants, userId) : undefined;
+      for (const [roleId, grants] of conditionalGrants) {
+        if (match) break;
+        if (roleId === userId || !closure.grants(userId, roleId)) continue;
+        match = tryGrants(grants, roleId);
+      }
+      if (match) return { allowed: true, match };
+    }
+
+    // Relation path: the context's subject holds a relation granting the permission on this object
+    const subject = context?.subject ?? (context?.userId !== undefined ? `user:${context.userId}` : undefined);
+    const candidates = requiredInstance !== undefined && requiredId !== undefined
+      ? relationGrants.get(requiredBase.slice(0, requiredBase.indexOf(':')))
+      : undefined;
+    if (subject !== undefined && candidates) {
+      const types = policy.config.relations!;
+      for (const { type, relation, permissionIds } of candidates) {
+        if (!permissionIds.some(id => id === requiredId || closure.grants(id, requiredId!))) continue;
+        const relationPath = resolveRelation(types, this.tuples, `${type}:${requiredInstance}`, relation, subject);
+        if (relationPath) {
+          return { allowed: true, match: { userPermission: subject, path: 'relation', relation, relationPath } };
+        }
       }
     }
 
-    return { allowed: false, evaluated: evaluatedPredicates };
+    return { allowed: false, evaluated: evaluatedPredicates, ...(expired.length > 0 ? { expired } : {}) };
   }
 
-  private runPredicate(name: string, context?: EnrichedContext): boolean {
-    const fn = this.predicates.get(name);
-    // Validated at construction, but guard defensively.
-    if (!fn) return false;
+  /**
+   * Async evaluation: dry runs without short-circuiting record every predicate the check
+   * can reach, those run in parallel, and this repeats until a run reaches no unresolved
+   * predicate (usually once). The check is then evaluated against the collected outcomes.
+   */
+  private async evaluateAsync(
+    userPermissions: readonly string[] | string[] | Set<string> | Delegation,
+    requiredPermission: string,
+    context: EnrichedContext | undefined,
+    options: { timeoutMs?: number }
+  ): Promise<EvaluationResult> {
+    // Predicates of a delegated check run against the principal
+    if (isDelegation(userPermissions)) context = this.principalContext(userPermissions.principal, context);
+    const timeoutMs = options.timeoutMs ?? this.predicateTimeoutMs;
+    // Predicate outcomes keyed by name and arguments
+    const results = new Map<string, boolean>();
+    const errors: PredicateError[] = [];
+    // Expressions are synchronous and cheap, so every pass evaluates them directly.
+    const resolve = (leaf: ConditionLeaf, pending?: Map<string, PredicateCall>): boolean => {
+      if (typeof leaf !== 'string' && 'expr' in leaf) return this.runCondition(leaf, context);
+      const call = typeof leaf === 'string' ? { name: leaf } : leaf;
+      const key = call.args ? `${call.name}:${JSON.stringify(call.args)}` : call.name;
+      if (!results.has(key)) pending?.set(key, call);
+      return results.get(key) === true;
+    };
+
+    for (;;) {
+      const pending = new Map<string, PredicateCall>();
+      this.evaluate(userPermissions, requiredPermission, context, leaf => resolve(leaf, pending), false);
+      if (pending.size === 0) break;
+
+      const calls = Array.from(pending);
+      const outcomes = await Promise.all(calls.map(([, call]) => this.runPredicateAsync(call, context, timeoutMs)));
+      calls.forEach(([key], i) => {
+        results.set(key, outcomes[i].passed);
+        if (outcomes[i].error) errors.push(outcomes[i].error!);
+      });
+    }
+
+    const result = this.evaluate(userPermissions, requiredPermission, context, leaf => resolve(leaf));
+    return errors.length > 0 ? { ...result, errors: this.uniqueErrors(errors) } : result;
+  }
+
+  /**
+   * Evaluate a condition tree. With `shortCircuit`, anyOf/allOf stop at the first child
+   * that decides them and report the rest as skipped.
+   */
+  private evaluateCondition(
+    condition: Condition,
+    predicate: (leaf: ConditionLeaf) => boolean,
+    shortCircuit: boolean
+  ): ConditionResult {
+    if (typeof condition === 'string') {
+      return { kind: 'predicate', name: condition, passed: predicate(condition) };
+    }
+    if ('name' in condition) {
+      return { kind: 'predicate', name: condition.name, args: condition.args, passed: predicate(condition) };
+    }
+    if ('expr' in condition) {
+      return { kind: 'expr', name: condition.expr, passed: predicate(condition) };
+    }
+    if ('not' in condition) {
+      const child = this.evaluateCondition(condition.not, predicate, shortCircuit);
+      return { kind: 'not', passed: !child.passed, children: [child] };
+    }
+
+    const kind = 'anyOf' in condition ? 'anyOf' : 'allOf';
+    const decisive = kind === 'anyOf';
+    const children: ConditionResult[] = [];
+    let decided = false;
+    for (const child of 'anyOf' in condition ? condition.anyOf : condition.allOf) {
+      if (decided && shortCircuit) {
+        children.push(this.skippedCondition(child));
+        continue;
+      }
+      const result = this.evaluateCondition(child, predicate, shortCircuit);
+      children.push(result);
+      if (result.passed === decisive) decided = true;
+    }
+    return { kind, passed: decided === decisive, children };
+  }
+
+  private skippedCondition(condition: Condition): ConditionResult {
+    if (typeof condition === 'string') return { kind: 'predicate', name: condition, passed: false, skipped: true };
+    if ('name' in condition) {
+      return { kind: 'predicate', name: condition.name, args: condition.args, passed: false, skipped: true };
+    }
+    if ('expr' in condition) return { kind: 'expr', name: condition.expr, passed: false, skipped: true };
+    if ('not' in condition) {
+      return { kind: 'not', passed: false, skipped: true, children: [this.skippedCondition(condition.not)] };
+    }
+    const kind = 'anyOf' in condition ? 'anyOf' : 'allOf';
+    const children = ('anyOf' in condition ? condition.anyOf : condition.allOf).map(c => this.skippedCondition(c));
+    return { kind, passed: false, skipped: true, children };
+  }
+
+  /**
+   * The leaves of an evaluated condition tree that actually ran, in evaluation order.
+   */
+  private evaluatedLeaves(result: ConditionResult): { name: string; passed: boolean }[] {
+    if (result.skipped) return [];
+    if (!result.children) return [{ name: result.name!, passed: result.passed }];
+    return result.children.flatMap(child => this.evaluatedLeaves(child));
+  }
+
+  private runCondition(condition: ConditionLeaf, context?: EnrichedContext, errors?: PredicateError[]): boolean {
+    if (typeof condition === 'string') return this.runPredicate({ name: condition }, context, errors);
+    if ('name' in condition) return this.runPredicate(condition, context, errors);
     if (!context) return false;
+    const fn = this.expressions.get(condition.expr);
+    if (!fn) return false;
     try {
-      return fn(context) === true;
+      return fn(context);
     } catch {
       return false;
     }
   }
 
+  /**
+   * Run a predicate. Errors are handled by its error policy (see onPredicateError) and
+   * added to `errors`.
+   */
+  private runPredicate({ name, args }: PredicateCall, context?: EnrichedContext, errors?: PredicateError[]): boolean {
+    const predicate = this.predicates.get(name);
+    // Validated at construction, but guard defensively.
+    if (!predicate) return false;
+    if (!context) return false;
+    let result: boolean | Promise<boolean>;
+    try {
+      result = predicate.evaluate(context, this.withDefaults(predicate, args));
+    } catch (thrown) {
+      this.metrics?.recordPredicate(name, 'error');
+      const { passed, error } = this.predicateFailure(name, errorMessage(thrown));
+      errors?.push(error);
+      return passed;
+    }
+    if (result instanceof Promise) {
+      result.catch(() => undefined);
+      throw new Error(`Predicate '${name}' is async. Use hasPermissionAsync(), checkPermissionDetailedAsync() or can.<method>Async() instead.`);
+    }
+    this.metrics?.recordPredicate(name, result === true ? 'passed' : 'failed');
+    return result === true;
+  }
+
+  private async runPredicateAsync(
+    { name, args }: PredicateCall,
+    context: EnrichedContext | undefined,
+    timeoutMs: number
+  ): Promise<{ passed: boolean; error?: PredicateError }> {
+    const predicate = this.predicates.get(name);
+    if (!predicate) return { passed: false };
+    if (!context) return { passed: false };
+    const resolvedArgs = this.withDefaults(predicate, args);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<PredicateOutcome>(resolve => {
+      timer = setTimeout(() => resolve('timeout'), timeoutMs);
+    });
+    try {
+      let thrown: unknown;
+      const evaluated = Promise.resolve()
+        .then(() => predicate.evaluate(context, resolvedArgs))
+        .then(
+          (value): PredicateOutcome => (value === true ? 'passed' : 'failed'),
+          (error): PredicateOutcome => {
+            thrown = error;
+            return 'error';
+          }
+        );
+      const outcome = await Promise.race([evaluated, timeout]);
+      this.metrics?.recordPredicate(name, outcome);
+      if (outcome === 'passed' || outcome === 'failed') return { passed: outcome === 'passed' };
+      return this.predicateFailure(name, outcome === 'timeout' ? `Timed out after ${timeoutMs} ms.` : errorMessage(thrown));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Apply a predicate's error policy: the outcome the predicate counts as, and the error
+   * to report. Throws under the 'throw' policy.
+   */
+  private predicateFailure(name: string, message: string): { passed: boolean; error: PredicateError } {
+    const policy = this.predicateErrorPolicies[name] ?? this.predicateErrorPolicies['*'] ?? 'failClosed';
+    if (policy === 'throw') {
+      throw new Error(`Predicate '${name}' failed: ${message}`);
+    }
+    return { passed: policy === 'failOpen', error: { name, message, policy } };
+  }
+
+  private uniqueErrors(errors: PredicateError[]): PredicateError[] {
+    const seen = new Set<string>();
+    return errors.filter(({ name, message }) => {
+      const key = `${name}\u0000${message}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private withDefaults(predicate: RegisteredPredicate, args: Record<string, unknown> = {}): Record<string, unknown> {
+    if (!predicate.args) return args;
+    const resolved = { ...args };
+    Object.entries(predicate.args).forEach(([key, spec]) => {
+      if (resolved[key] === undefined && spec.default !== undefined) resolved[key] = spec.default;
+    });
+    return resolved;
+  }
+
 
   /**
    * Get all effective permissions (including inherited)
    */
   getEffectivePermissions(userPermissions: readonly string[] | string[] | Set<string>): Set<string> {
-    const permissionSet = userPermissions instanceof Set ? userPermissions : new Set(userPermissions);
-    const effective = new Set<string>();
-
-    for (const userPerm of permissionSet) {
-      effective.add(userPerm);
-      const grants = this.graph.grants.get(userPerm);
-      if (grants) {
-        grants.forEach(granted => effective.add(granted));
+    const { closure } = this.policy;
+    const ids: number[] = [];
+    const unknown: string[] = [];
+
+    for (const rawPerm of userPermissions) {
+      const userPerm = this.toNode(rawPerm);
+      const id = closure.idOf(userPerm);
+      if (id === undefined) {
+        unknown.push(userPerm);
+      } else {
+        ids.push(id);
       }
     }
 
+    const effective = closure.collect(ids);
+    unknown.forEach(userPerm => effective.add(userPerm));
     return effective;
   }
 
+  /**
+   * Time-bound role grants and role assignments that expire within `withinMs` of `from`
+   * (default now), soonest first. Those already expired are not included.
+   */
+  getExpiringGrants(withinMs: number, from: Date = new Date()): ExpiringGrant[] {
+    const start = from.getTime();
+    const expiring: { at: number; grant: ExpiringGrant }[] = [];
+    const add = (expiresAt: number | undefined, grant: Omit<ExpiringGrant, 'expiresAt'>) => {
+      if (expiresAt === undefined || expiresAt <= start || expiresAt > start + withinMs) return;
+      expiring.push({ at: expiresAt, grant: { ...grant, expiresAt: new Date(expiresAt).toISOString() } });
+    };
+
+    Object.entries(this.policy.config.roles ?? {}).forEach(([roleId, role]) => {
+      role.permissions.forEach(entry => {
+        const { permission, instance, window } = this.normalizeRoleEntry(entry);
+        add(window?.expiresAt, { role: roleId, permission: this.joinInstance(permission, instance) });
+      });
+    });
+    this.assignments.list().forEach(subject => {
+      subject.roles?.forEach(assignment => {
+        if (typeof assignment === 'string') return;
+        const window = parseWindow(assignment, `role assignment '${assignment.role}' of subject '${subject.id}'`);
+        add(window?.expiresAt, { role: assignment.role, subjectId: subject.id });
+      });
+    });
+
+    return expiring.sort((a, b) => a.at - b.at).map(({ grant }) => grant);
+  }
+
   /**
    * Get permissions that grant a specific permission
    * Useful for debugging and understanding permission hierarchy
    */
   whoGrantsPermission(permission: string): Set<string> {
-    const grantors = new Set(this.graph.grantedBy.get(permission) || []);
+    const grantors = this.policy.closure.grantors(permission);
     // A permission always grants itself
-    if (this.allPermissions.has(permission)) {
+    if (this.policy.allPermissions.has(permission)) {
       grantors.add(permission);
     }
     return grantors;
@@ -502,26 +2285,23 @@ export class PermissionService {
    * Get all permissions granted by a specific permission
    */
   whatDoesPermissionGrant(permission: string): Set<string> {
-    return this.graph.grants.get(permission) || new Set();
+    return this.policy.closure.granted(permission);
   }
 
   /**
    * Get system statistics
    */
   getStats(): RBACStats {
-    let totalGrants = 0;
-    this.graph.grants.forEach(grants => {
-      totalGrants += grants.size;
-    });
-
-    const resourceCount = Object.values(this.config.modules).reduce((sum, resources) => sum + resources.length, 0);
+    const { config, allPermissions, closure } = this.policy;
+    const nodes = this.resourceNodes(config);
+    const resourceCount = nodes.filter(node => node.depth > 0).length;
 
     return {
-      totalPermissions: this.allPermissions.size,
-      grantRelationships: totalGrants,
-      modules: Object.keys(this.config.modules).length,
+      totalPermissions: allPermissions.size,
+      grantRelationships: closure.edgeCount(),
+      modules: Object.keys(config.modules).length,
       resources: resourceCount,
-      actions: this.ACTIONS.length
+      actions: this.allActions(config, nodes).length
     };
   }
 
@@ -529,19 +2309,22 @@ export class PermissionService {
    * Visualize permission graph for debugging
    */
   visualizeGraph(): string {
+    const { closure } = this.policy;
     const lines: string[] = [];
 
-    this.graph.grants.forEach((grants, grantor) => {
-      if (grants.size > 0) {
-        lines.push(`${grantor} grants:`);
-        Array.from(grants)
-          .sort()
-          .forEach(grantee => {
-            lines.push(`  └─ ${grantee}`);
-          });
-        lines.push('');
-      }
-    });
+    for (let grantor = 0; grantor < closure.size; grantor++) {
+      if (closure.rowSize(grantor) === 0) continue;
+      const grants: string[] = [];
+      closure.forEachGranted(grantor, grantee => grants.push(closure.nameOf(grantee)));
+
+      lines.push(`${closure.nameOf(grantor)} grants:`);
+      grants
+        .sort()
+        .forEach(grantee => {
+          lines.push(`  └─ ${grantee}`);
+        });
+      lines.push('');
+    }
 
     return lines.join('\n');
   }
@@ -551,40 +2334,154 @@ export class PermissionService {
    * unconditional vs. conditional, and predicate outcomes).
    */
   checkPermissionDetailed(
-    userPermissions: string[],
+    userPermissions: string[] | Delegation,
     requiredPermission: string,
     context?: EnrichedContext
   ): PermissionCheckResult {
-    const result = this.evaluate(userPermissions, requiredPermission, context);
+    const result = this.decide(userPermissions, requiredPermission, context, () =>
+      this.evaluate(userPermissions, requiredPermission, context)
+    );
+    return this.explain(userPermissions, requiredPermission, result);
+  }
+
+  /**
+   * Async form of checkPermissionDetailed (see hasPermissionAsync).
+   */
+  async checkPermissionDetailedAsync(
+    userPermissions: string[] | Delegation,
+    requiredPermission: string,
+    context?: EnrichedContext,
+    options: { timeoutMs?: number } = {}
+  ): Promise<PermissionCheckResult> {
+    const result = await this.decideAsync(userPermissions, requiredPermission, context, () =>
+      this.evaluateAsync(userPermissions, requiredPermission, context, options)
+    );
+    return this.explain(userPermissions, requiredPermission, result);
+  }
+
+  private describeExpired({ role, permission, subjectId, state, validFrom, expiresAt }: ExpiredMatch): string {
+    const what = permission !== undefined ? `'${permission}' on role '${role}'` : `role '${role}' assigned to '${subjectId}'`;
+    return state === 'expired' ? `${what} expired at ${expiresAt}` : `${what} valid from ${validFrom}`;
+  }
+
+  private explain(
+    userPermissions: string[] | Delegation,
+    requiredPermission: string,
+    result: EvaluationResult
+  ): PermissionCheckResult {
+    if (isDelegation(userPermissions)) return this.explainDelegation(userPermissions, requiredPermission, result);
+    if (result.breakGlass) {
+      const { breakGlass } = result;
+      const explained = this.explain(userPermissions, requiredPermission, { ...result, breakGlass: undefined });
+      return {
+        ...explained,
+        reason: `${explained.reason} Break-glass access by '${breakGlass.activation.userId}': ${breakGlass.justification}.`,
+        breakGlass
+      };
+    }
 
     if (result.allowed) {
       const { match } = result;
       const reason =
         match.path === 'unconditional'
           ? `Granted via '${match.userPermission}' (unconditional).`
+          : match.path === 'instance'
+          ? `Granted via '${match.userPermission}' → instance grant '${match.instancePermission}'.`
+          : match.path === 'relation'
+          ? `Granted via relation '${match.relation}' held by '${match.userPermission}' (${(match.relationPath ?? []).join(' → ')}).`
           : `Granted via '${match.userPermission}' → conditional grant on '${match.conditionalPermission}' with predicates [${(match.predicates ?? []).map(p => p.name).join(', ')}].`;
 
       return {
         allowed: true,
+        decision: 'allow',
         permission: requiredPermission,
         userPermissions,
         reason,
         matchedVia: match,
-        evaluatedPredicates: match.predicates
+        evaluatedPredicates: match.predicates,
+        ...(result.errors ? { predicateErrors: result.errors } : {})
+      };
+    }
+
+    if (result.violation) {
+      const { violation } = result;
+      return {
+        allowed: false,
+        decision: 'deny',
+        permission: requiredPermission,
+        userPermissions,
+        reason: `Denied by separation-of-duty constraint '${violation.constraint}': the user ${describeViolation(violation)}.`,
+        violation
+      };
+    }
+
+    if (result.deniedBy) {
+      const { deniedBy } = result;
+      return {
+        allowed: false,
+        decision: 'deny',
+        permission: requiredPermission,
+        userPermissions,
+        reason: `Denied by explicit deny '${deniedBy.deny}' on '${deniedBy.role}' (held via '${deniedBy.userPermission}').`,
+        deniedBy
       };
     }
 
     const failed = result.evaluated.filter(p => !p.passed);
-    const reason = failed.length > 0
+    const indeterminate = result.errors?.some(error => error.policy === 'failClosed') ?? false;
+    const reason = indeterminate
+      ? `Indeterminate. Predicates failed with errors: [${result.errors!.map(e => `${e.name}: ${e.message}`).join(', ')}].`
+      : result.expired
+      ? `Denied. Time-bound grants are not valid now: [${result.expired.map(e => this.describeExpired(e)).join(', ')}].`
+      : failed.length > 0
       ? `Denied. Reachable conditional grants failed predicates: [${failed.map(p => p.name).join(', ')}].`
       : `Denied. No user permission grants '${requiredPermission}'.`;
 
     return {
       allowed: false,
+      decision: indeterminate ? 'indeterminate' : 'deny',
       permission: requiredPermission,
       userPermissions,
       reason,
-      evaluatedPredicates: result.evaluated.length > 0 ? result.evaluated : undefined
+      evaluatedPredicates: result.evaluated.length > 0 ? result.evaluated : undefined,
+      expired: result.expired,
+      ...(result.errors ? { predicateErrors: result.errors } : {})
+    };
+  }
+
+  /**
+   * Explain a delegated check: as the principal's check, reporting the actor and the
+   * principal, unless the delegation itself denied it.
+   */
+  private explainDelegation(
+    delegation: Delegation,
+    requiredPermission: string,
+    result: EvaluationResult
+  ): PermissionCheckResult {
+    const { actor, principal, permissions } = delegation;
+    const via = `delegation from '${principal}' to '${actor}'`;
+
+    if (!result.allowed && result.delegation) {
+      return {
+        allowed: false,
+        decision: 'deny',
+        permission: requiredPermission,
+        userPermissions: permissions,
+        reason: result.delegation === 'expired'
+          ? `Denied. The ${via} expired at ${delegation.expiresAt}.`
+          : `Denied. '${requiredPermission}' is outside the permissions of the ${via}.`,
+        actor,
+        principal
+      };
+    }
+
+    const explained = this.explain(delegation.principalPermissions, requiredPermission, result);
+    return {
+      ...explained,
+      userPermissions: permissions,
+      reason: `${explained.reason} Delegated by '${principal}' to '${actor}'.`,
+      actor,
+      principal
     };
   }
 }
@@ -0,0 +1,172 @@
+/**
+ * Policy Snapshot - versioned serialization of a compiled policy
+ * Snapshots come in two encodings carrying the same payload:
+ *  - JSON (PolicySnapshot), with closure rows as base64 words
+ *  - a compact binary Buffer: magic, version, JSON header, then raw row words
+ */
+
+import { createHash } from 'crypto';
+import { PolicySnapshot, RBACConfig } from '../types';
+import { SerializedGraph } from './compiled.graph';
+
+export const SNAPSHOT_FORMAT = 'authz-engine/policy-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+// "AZPS" - authz-engine policy snapshot
+const BINARY_MAGIC = 0x535a5041;
+
+/**
+ * Encoding-independent snapshot contents
+ */
+export interface SnapshotPayload {
+  configHash: string;
+  graph: SerializedGraph;
+  conditionalGrants: PolicySnapshot['conditionalGrants'];
+  blockedBy: PolicySnapshot['blockedBy'];
+  instanceGrants: PolicySnapshot['instanceGrants'];
+  methods: PolicySnapshot['methods'];
+}
+
+type BinaryHeader = Omit<PolicySnapshot, 'rows'>;
+
+/**
+ * Stable SHA-256 of a config: object keys are sorted so equivalent configs hash equally,
+ * and dates (e.g. validity windows) hash as their ISO 8601 strings.
+ */
+export function hashConfig(config: RBACConfig): string {
+  const canonical = (value: unknown): unknown => {
+    if (value instanceof Date) return value.toISOString();
+    if (Array.isArray(value)) return value.map(canonical);
+    if (value && typeof value === 'object') {
+      const sorted: Record<string, unknown> = {};
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .forEach(key => {
+          sorted[key] = canonical((value as Record<string, unknown>)[key]);
+        });
+      return sorted;
+    }
+    return value;
+  };
+
+  return createHash('sha256').update(JSON.stringify(canonical(config))).digest('hex');
+}
+
+export function encodeJsonSnapshot(payload: SnapshotPayload): PolicySnapshot {
+  return {
+    ...toHeader(payload),
+    rows: payload.graph.rows.map(({ id, offset, words }) => [id, offset, fromWords(words).toString('base64')])
+  };
+}
+
+export function encodeBinarySnapshot(payload: SnapshotPayload): Buffer {
+  const header = Buffer.from(JSON.stringify(toHeader(payload)), 'utf8');
+  const rowBytes = payload.graph.rows.reduce((sum, row) => sum + 12 + row.words.byteLength, 0);
+
+  const buffer = Buffer.alloc(12 + header.length + 4 + rowBytes);
+  let pos = 0;
+  pos = buffer.writeUInt32LE(BINARY_MAGIC, pos);
+  pos = buffer.writeUInt32LE(SNAPSHOT_VERSION, pos);
+  pos = buffer.writeUInt32LE(header.length, pos);
+  pos += header.copy(buffer, pos);
+  pos = buffer.writeUInt32LE(payload.graph.rows.length, pos);
+  for (const { id, offset, words } of payload.graph.rows) {
+    pos = buffer.writeUInt32LE(id, pos);
+    pos = buffer.writeUInt32LE(offset, pos);
+    pos = buffer.writeUInt32LE(words.length, pos);
+    for (let w = 0; w < words.length; w++) pos = buffer.writeUInt32LE(words[w], pos);
+  }
+  return buffer;
+}
+
+/**
+ * Decode either encoding (a JSON string is parsed first), rejecting unknown formats and versions.
+ */
+export function decodeSnapshot(snapshot: PolicySnapshot | Buffer | string): SnapshotPayload {
+  if (Buffer.isBuffer(snapshot)) return decodeBinarySnapshot(snapshot);
+
+  const json: PolicySnapshot = typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot;
+  checkVersion(json.format, json.version);
+  return {
+    ...fromHeader(json),
+    graph: {
+      nodes: json.nodes,
+      rows: json.rows.map(([id, offset, base64]) => ({ id, offset, words: toWords(Buffer.from(base64, 'base64')) }))
+    }
+  };
+}
+
+function decodeBinarySnapshot(buffer: Buffer): SnapshotPayload {
+  if (buffer.length < 12 || buffer.readUInt32LE(0) !== BINARY_MAGIC) {
+    throw new Error('Not a policy snapshot: missing binary header.');
+  }
+  checkVersion(SNAPSHOT_FORMAT, buffer.readUInt32LE(4));
+
+  let pos = 12 + buffer.readUInt32LE(8);
+  const header: BinaryHeader = JSON.parse(buffer.toString('utf8', 12, pos));
+  checkVersion(header.format, header.version);
+
+  const rowCount = buffer.readUInt32LE(pos);
+  pos += 4;
+  const rows: SerializedGraph['rows'] = [];
+  for (let r = 0; r < rowCount; r++) {
+    const id = buffer.readUInt32LE(pos);
+    const offset = buffer.readUInt32LE(pos + 4);
+    const length = buffer.readUInt32LE(pos + 8);
+    pos += 12;
+    rows.push({ id, offset, words: toWords(buffer.subarray(pos, pos + length * 4)) });
+    pos += length * 4;
+  }
+
+  return { ...fromHeader(header), graph: { nodes: header.nodes, rows } };
+}
+
+function checkVersion(format: string, version: number): void {
+  if (format !== SNAPSHOT_FORMAT) {
+    throw new Error(`Not a policy snapshot: unknown format '${format}'.`);
+  }
+  if (version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported policy snapshot version ${version} (expected ${SNAPSHOT_VERSION}). Recompile it.`);
+  }
+}
+
+function toHeader(payload: SnapshotPayload): BinaryHeader {
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    configHash: payload.configHash,
+    nodes: payload.graph.nodes,
+    conditionalGrants: payload.conditionalGrants,
+    blockedBy: payload.blockedBy,
+    instanceGrants: payload.instanceGrants,
+    methods: payload.methods
+  };
+}
+
+function fromHeader(header: BinaryHeader): Omit<SnapshotPayload, 'graph'> {
+  return {
+    configHash: header.configHash,
+    conditionalGrants: header.conditionalGrants,
+    blockedBy: header.blockedBy,
+    instanceGrants: header.instanceGrants,
+    methods: header.methods
+  };
+}
+
+/**
+ * Write words as little-endian bytes, independent of platform endianness.
+ */
+function fromWords(words: Uint32Array): Buffer {
+  const bytes = Buffer.alloc(words.length * 4);
+  for (let w = 0; w < words.length; w++) bytes.writeUInt32LE(words[w], w * 4);
+  return bytes;
+}
+
+/**
+ * Copy little-endian bytes into an aligned Uint32Array.
+ */
+function toWords(bytes: Buffer): Uint32Array {
+  const words = new Uint32Array(bytes.length >>> 2);
+  for (let w = 0; w < words.length; w++) words[w] = bytes.readUInt32LE(w * 4);
+  return words;
+}
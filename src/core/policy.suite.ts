@@ -0,0 +1,163 @@
+/**
+ * Policy Suite - expected authorization outcomes as data
+ * A suite file (YAML or JSON) lists cases of subject permissions, a required permission,
+ * a context and the expected decision. runPolicyTests() runs each case through
+ * checkPermissionDetailed() and formatPolicyTestReport() explains the failures, so a
+ * policy change can be reviewed against its expected outcomes.
+ */
+
+import { readFileSync } from 'fs';
+import { load } from 'js-yaml';
+import { dirname, extname, resolve } from 'path';
+import { PermissionService } from './permission.service';
+import {
+  PermissionServiceOptions,
+  PolicyTestCase,
+  PolicyTestReport,
+  PolicyTestResult,
+  PolicyTestSuite,
+  RBACConfig
+} from '../types';
+
+const DECISIONS = ['allow', 'deny', 'indeterminate'];
+const PATHS = ['unconditional', 'conditional', 'instance', 'relation'];
+
+/**
+ * Read and validate a suite file. A relative `config` path is resolved against the
+ * suite's directory.
+ */
+export function loadPolicyTestSuite(path: string): PolicyTestSuite {
+  const data = parseFile(path);
+  if (!isRecord(data) || !Array.isArray(data.cases)) {
+    throw new Error(`Policy test suite '${path}' must have a list of cases.`);
+  }
+  if (data.config !== undefined && typeof data.config !== 'string') {
+    throw new Error(`Policy test suite '${path}' has an invalid config path. Use a file path.`);
+  }
+
+  return {
+    ...(data.config !== undefined ? { config: resolve(dirname(path), data.config) } : {}),
+    cases: data.cases.map((entry, i) => parseCase(entry, `case ${i + 1} of '${path}'`))
+  };
+}
+
+/**
+ * Load the RBACConfig to test. JSON and YAML files hold the config itself. JS modules
+ * (or TS modules under ts-node) export it as `config` or default, and can export the
+ * service `options` (e.g. predicates) alongside it.
+ */
+export function loadPolicyConfig(path: string): { config: RBACConfig; options: PermissionServiceOptions } {
+  const extension = extname(path).toLowerCase();
+  if (extension === '.js' || extension === '.ts') {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const exports = require(resolve(path));
+    const config = exports.config ?? exports.default ?? exports;
+    return { config, options: exports.options ?? {} };
+  }
+  return { config: parseFile(path) as RBACConfig, options: {} };
+}
+
+/**
+ * Run every case against the service. A check that throws fails its case.
+ */
+export function runPolicyTests(service: PermissionService, cases: PolicyTestCase[]): PolicyTestReport {
+  const results = cases.map((testCase): PolicyTestResult => {
+    try {
+      const result = service.checkPermissionDetailed(testCase.permissions, testCase.permission, testCase.context);
+      const failures: string[] = [];
+      if (result.decision !== testCase.expect) {
+        failures.push(`expected ${testCase.expect}, got ${result.decision}`);
+      }
+      if (testCase.path && result.allowed && result.matchedVia?.path !== testCase.path) {
+        failures.push(`expected the ${testCase.path} path, got ${result.matchedVia?.path}`);
+      }
+      return { case: testCase, passed: failures.length === 0, failures, result };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { case: testCase, passed: false, failures: [`check threw: ${message}`] };
+    }
+  });
+
+  const passed = results.filter(result => result.passed).length;
+  return { passed, failed: results.length - passed, results };
+}
+
+/**
+ * A readable report: each failed case with what did not match and the check's reason,
+ * then the totals.
+ */
+export function formatPolicyTestReport(report: PolicyTestReport): string {
+  const lines: string[] = [];
+  report.results
+    .filter(result => !result.passed)
+    .forEach(({ case: testCase, failures, result }) => {
+      lines.push(`✗ ${describeCase(testCase)}`);
+      lines.push(`    ${testCase.permission} with [${testCase.permissions.join(', ')}]`);
+      failures.forEach(failure => lines.push(`    ${failure}`));
+      if (result?.matchedVia) lines.push(`    matched via ${result.matchedVia.userPermission} (${result.matchedVia.path})`);
+      if (result?.reason) lines.push(`    reason: ${result.reason}`);
+      lines.push('');
+    });
+  lines.push(`${report.passed} passed, ${report.failed} failed, ${report.results.length} total`);
+  return lines.join('\n');
+}
+
+function describeCase(testCase: PolicyTestCase): string {
+  return testCase.name ?? `${testCase.permission}: ${testCase.expect}`;
+}
+
+function parseFile(path: string): unknown {
+  const text = readFileSync(path, 'utf8');
+  const extension = extname(path).toLowerCase();
+  if (extension === '.json') return JSON.parse(text);
+  if (extension === '.yaml' || extension === '.yml') return load(text);
+  throw new Error(`Unsupported file '${path}'. Use .json, .yaml or .yml.`);
+}
+
+function parseCase(entry: unknown, where: string): PolicyTestCase {
+  if (!isRecord(entry)) throw new Error(`Invalid ${where}. Each case must be an object.`);
+  const { name, permissions, permission, context, expect, path } = entry;
+
+  if (name !== undefined && typeof name !== 'string') {
+    throw new Error(`Invalid name in ${where}. Use a string.`);
+  }
+  if (!Array.isArray(permissions) || permissions.some(p => typeof p !== 'string')) {
+    throw new Error(`Invalid permissions in ${where}. Use a list of roles and permissions.`);
+  }
+  if (typeof permission !== 'string') {
+    throw new Error(`Missing permission in ${where}.`);
+  }
+  if (typeof expect !== 'string' || !DECISIONS.includes(expect)) {
+    throw new Error(`Invalid expect in ${where}. Use 'allow', 'deny' or 'indeterminate'.`);
+  }
+  if (path !== undefined && (typeof path !== 'string' || !PATHS.includes(path))) {
+    throw new Error(`Invalid path in ${where}. Use ${PATHS.map(p => `'${p}'`).join(', ')}.`);
+  }
+  if (context !== undefined && !isRecord(context)) {
+    throw new Error(`Invalid context in ${where}. Use an object.`);
+  }
+
+  return {
+    ...(name !== undefined ? { name } : {}),
+    permissions,
+    permission,
+    ...(context !== undefined ? { context: parseContext(context, where) } : {}),
+    expect: expect as PolicyTestCase['expect'],
+    ...(path !== undefined ? { path: path as PolicyTestCase['path'] } : {})
+  };
+}
+
+// YAML reads unquoted timestamps as Dates; JSON (and quoted YAML) leave them strings
+function parseContext(context: Record<string, unknown>, where: string): PolicyTestCase['context'] {
+  const { timestamp } = context;
+  if (timestamp === undefined || timestamp instanceof Date) return context;
+  const date = typeof timestamp === 'string' ? new Date(timestamp) : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid context.timestamp in ${where}. Use an ISO 8601 date.`);
+  }
+  return { ...context, timestamp: date };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,108 @@
+/**
+ * Prometheus Metrics - a MetricsCollector rendered in the Prometheus text format
+ *   <prefix>checks_total{permission, decision}            counter
+ *   <prefix>predicate_evaluations_total{predicate, outcome} counter
+ *   <prefix>check_duration_seconds{decision}                histogram
+ * Checks that throw are counted with decision="error".
+ * Serve render() from a /metrics endpoint with PrometheusMetrics.contentType.
+ */
+
+import { MetricsCollector, PredicateOutcome } from '../types';
+
+// Check latencies are typically microseconds; the buckets span 10µs to 100ms.
+const DEFAULT_BUCKETS = [0.00001, 0.000025, 0.00005, 0.0001, 0.00025, 0.0005, 0.001, 0.0025, 0.005, 0.01, 0.1];
+
+type Histogram = { counts: number[]; sum: number; count: number };
+
+export class PrometheusMetrics implements MetricsCollector {
+  static readonly contentType = 'text/plain; version=0.0.4; charset=utf-8';
+
+  private readonly prefix: string;
+  private readonly buckets: number[];
+  // Keyed by rendered label set
+  private checks = new Map<string, number>();
+  private predicates = new Map<string, number>();
+  private durations = new Map<string, Histogram>();
+
+  constructor(options: { prefix?: string; buckets?: number[] } = {}) {
+    this.prefix = options.prefix ?? 'authz_';
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(`${this.prefix}x`)) {
+      throw new Error(`Invalid metric prefix '${this.prefix}'.`);
+    }
+    if (this.buckets.length === 0 || this.buckets.some(bound => !(bound > 0) || !Number.isFinite(bound))) {
+      throw new Error('Histogram buckets must be positive, finite numbers of seconds.');
+    }
+  }
+
+  recordCheck(permission: string, allowed: boolean, latencyMs: number): void {
+    this.countCheck(permission, allowed ? 'allow' : 'deny', latencyMs);
+  }
+
+  recordCheckError(permission: string, latencyMs: number): void {
+    this.countCheck(permission, 'error', latencyMs);
+  }
+
+  recordPredicate(name: string, outcome: PredicateOutcome): void {
+    const key = labels({ predicate: name, outcome });
+    this.predicates.set(key, (this.predicates.get(key) ?? 0) + 1);
+  }
+
+  /**
+   * Every metric in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines: string[] = [];
+    const counter = (name: string, help: string, values: Map<string, number>) => {
+      lines.push(`# HELP ${this.prefix}${name} ${help}`, `# TYPE ${this.prefix}${name} counter`);
+      values.forEach((value, key) => lines.push(`${this.prefix}${name}{${key}} ${value}`));
+    };
+
+    counter('checks_total', 'Permission checks by permission and decision.', this.checks);
+    counter('predicate_evaluations_total', 'Predicate evaluations by predicate and outcome.', this.predicates);
+
+    const name = `${this.prefix}check_duration_seconds`;
+    lines.push(`# HELP ${name} Permission check latency in seconds.`, `# TYPE ${name} histogram`);
+    this.durations.forEach((histogram, key) => {
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += histogram.counts[i];
+        lines.push(`${name}_bucket{${key},le="${bound}"} ${cumulative}`);
+      });
+      lines.push(`${name}_bucket{${key},le="+Inf"} ${histogram.count}`);
+      lines.push(`${name}_sum{${key}} ${histogram.sum}`);
+      lines.push(`${name}_count{${key}} ${histogram.count}`);
+    });
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  reset(): void {
+    this.checks.clear();
+    this.predicates.clear();
+    this.durations.clear();
+  }
+
+  private countCheck(permission: string, decision: 'allow' | 'deny' | 'error', latencyMs: number): void {
+    const key = labels({ permission, decision });
+    this.checks.set(key, (this.checks.get(key) ?? 0) + 1);
+
+    const seconds = latencyMs / 1000;
+    const histogramKey = labels({ decision });
+    let histogram = this.durations.get(histogramKey);
+    if (!histogram) {
+      histogram = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.durations.set(histogramKey, histogram);
+    }
+    const bucket = this.buckets.findIndex(bound => seconds <= bound);
+    if (bucket !== -1) histogram.counts[bucket]++;
+    histogram.sum += seconds;
+    histogram.count++;
+  }
+}
+
+function labels(values: Record<string, string>): string {
+  return Object.entries(values)
+    .map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+    .join(',');
+}
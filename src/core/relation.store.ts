@@ -0,0 +1,111 @@
+/**
+ * Relation Store - relationship tuples and their resolution (Zanzibar-style ReBAC)
+ * Tuples say "subject has relation on object"; relation definitions derive further
+ * relations from them (computed usersets and parent traversal).
+ */
+
+import { RelationTuple, RelationTypeDefinition, TupleStoreAdapter } from '../types';
+
+/**
+ * Parse "object#relation@subject", e.g. "document:42#viewer@user:alice" or
+ * "document:42#viewer@group:eng#member".
+ */
+export function parseTuple(tuple: string): RelationTuple {
+  const at = tuple.indexOf('@');
+  const hash = tuple.indexOf('#');
+  if (hash === -1 || at === -1 || hash > at) {
+    throw new Error(`Invalid relation tuple '${tuple}'. Expected 'object#relation@subject'.`);
+  }
+  const parsed = { object: tuple.slice(0, hash), relation: tuple.slice(hash + 1, at), subject: tuple.slice(at + 1) };
+  if (!parsed.object.includes(':') || !parsed.relation || !parsed.subject.includes(':')) {
+    throw new Error(`Invalid relation tuple '${tuple}'. Objects and subjects are written 'type:id'.`);
+  }
+  return parsed;
+}
+
+export function formatTuple({ object, relation, subject }: RelationTuple): string {
+  return `${object}#${relation}@${subject}`;
+}
+
+/**
+ * Default TupleStoreAdapter: tuples indexed by "object#relation".
+ */
+export class InMemoryTupleStore implements TupleStoreAdapter {
+  private readonly tuples = new Map<string, Set<string>>();
+
+  write(tuples: RelationTuple[]): void {
+    tuples.forEach(({ object, relation, subject }) => {
+      const key = `${object}#${relation}`;
+      if (!this.tuples.has(key)) this.tuples.set(key, new Set());
+      this.tuples.get(key)!.add(subject);
+    });
+  }
+
+  delete(tuples: RelationTuple[]): void {
+    tuples.forEach(({ object, relation, subject }) => {
+      const key = `${object}#${relation}`;
+      const subjects = this.tuples.get(key);
+      if (!subjects) return;
+      subjects.delete(subject);
+      if (subjects.size === 0) this.tuples.delete(key);
+    });
+  }
+
+  read(object: string, relation: string): RelationTuple[] {
+    const subjects = this.tuples.get(`${object}#${relation}`);
+    if (!subjects) return [];
+    return Array.from(subjects, subject => ({ object, relation, subject }));
+  }
+}
+
+/**
+ * Does `subject` hold `relation` on `object`? Returns the tuples that prove it (outermost
+ * first), or undefined. Resolves direct tuples, usersets ("group:eng#member"), computed
+ * relations (`includes`) and parent traversal (`fromParent`). Cycles in the tuple data
+ * are cut off rather than followed.
+ */
+export function resolveRelation(
+  types: Record<string, RelationTypeDefinition>,
+  store: TupleStoreAdapter,
+  object: string,
+  relation: string,
+  subject: string,
+  visiting: Set<string> = new Set()
+): string[] | undefined {
+  const key = `${object}#${relation}`;
+  if (visiting.has(key)) return undefined;
+  visiting.add(key);
+
+  try {
+    for (const tuple of store.read(object, relation)) {
+      if (tuple.subject === subject) return [formatTuple(tuple)];
+
+      const hash = tuple.subject.indexOf('#');
+      if (hash === -1) continue;
+      const path = resolveRelation(
+        types, store, tuple.subject.slice(0, hash), tuple.subject.slice(hash + 1), subject, visiting
+      );
+      if (path) return [formatTuple(tuple), ...path];
+    }
+
+    const definition = types[object.slice(0, object.indexOf(':'))]?.relations[relation];
+    if (!definition) return undefined;
+
+    for (const included of definition.includes ?? []) {
+      const path = resolveRelation(types, store, object, included, subject, visiting);
+      if (path) return path;
+    }
+
+    for (const { through, relation: parentRelation } of definition.fromParent ?? []) {
+      for (const link of store.read(object, through)) {
+        if (link.subject.includes('#')) continue;
+        const path = resolveRelation(types, store, link.subject, parentRelation, subject, visiting);
+        if (path) return [formatTuple(link), ...path];
+      }
+    }
+
+    return undefined;
+  } finally {
+    visiting.delete(key);
+  }
+}
@@ -4,6 +4,12 @@
 
 // Core exports
 export { PermissionService } from './core/permission.service';
+export { InMemoryTupleStore, parseTuple, formatTuple } from './core/relation.store';
+export { InMemoryAssignmentStore, JsonFileAssignmentStore } from './core/assignment.store';
+export { ConsoleDecisionSink, JsonLinesDecisionSink, RingBufferDecisionSink } from './core/decision.log';
+export { PrometheusMetrics } from './core/prometheus.metrics';
+export { BUILTIN_PREDICATES } from './core/builtin.predicates';
+export { loadPolicyTestSuite, loadPolicyConfig, runPolicyTests, formatPolicyTestReport } from './core/policy.suite';
 
 // Utils exports
 export { PermissionVisualizer } from './utils/visualizer';
@@ -14,18 +20,64 @@ export { DEFAULT_RBAC_CONFIG, DEFAULT_ROLES } from './config/default.config';
 // Type exports
 export type {
   RBACConfig,
+  ResourceTree,
+  ResourceDefinition,
   PermissionString,
   Action,
   Permission,
   Role,
   RolePermissionEntry,
   ConditionalPermission,
+  Condition,
+  ConditionExpression,
+  AnyOfCondition,
+  AllOfCondition,
+  NotCondition,
+  ConditionResult,
+  DenyPermission,
   Predicate,
+  PredicateArgSchema,
+  ParameterizedPredicate,
+  PredicateCall,
   PermissionServiceOptions,
+  PolicySnapshot,
+  TenantOverrides,
+  RelationTypeDefinition,
+  RelationDefinition,
+  RelationTuple,
+  TupleStoreAdapter,
+  Subject,
+  SubjectType,
+  AssignmentStoreAdapter,
+  ValidityWindow,
+  RoleAssignment,
+  ExpiredMatch,
+  ExpiringGrant,
+  SeparationOfDutyConstraint,
+  ConstraintViolation,
+  DelegationRequest,
+  Delegation,
+  BreakGlassOptions,
+  BreakGlassActivation,
+  BreakGlassEvent,
+  DecisionLogOptions,
+  DecisionRecord,
+  DecisionSink,
+  MetricsCollector,
+  PredicateOutcome,
+  PredicateErrorPolicy,
+  PredicateError,
+  CheckTracer,
+  CheckSpan,
   PermissionGraph,
   RBACStats,
   PermissionCheckResult,
   PermissionMatch,
+  DenyMatch,
+  PolicyTestCase,
+  PolicyTestSuite,
+  PolicyTestResult,
+  PolicyTestReport,
   ValidationResult,
   EnrichedContext
 } from './types';
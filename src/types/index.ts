@@ -7,15 +7,62 @@
  */
 export interface RBACConfig {
   modules: {
-    [module: string]: string[];
+    [module: string]: ResourceTree | ResourceDefinition;
   };
   roles?: Record<string, Role>;
   hierarchy?: Record<string, string[]>;
+  // Relationship-based access: object types keyed by name (see RelationTuple)
+  relations?: Record<string, RelationTypeDefinition>;
+  // Separation-of-duty rules, enforced on roles, subjects and checks
+  constraints?: SeparationOfDutyConstraint[];
 }
 
 /**
- * Permission string format: "module.resource:action"
- * @example "users:read", "posts.comments:update"
+ * A separation-of-duty rule. Checked statically against roles (through inheritance)
+ * and stored subjects, and dynamically at check time: a permission set that violates
+ * a constraint is denied every permission.
+ *  - mutuallyExclusiveRoles: nobody holds more than one of `roles`
+ *  - exclusivePermissions: nobody holds more than one of `permissions`
+ *  - maxRoles: nobody is assigned more than `max` roles
+ */
+export type SeparationOfDutyConstraint =
+  | { name: string; kind: 'mutuallyExclusiveRoles'; roles: string[] }
+  | { name: string; kind: 'exclusivePermissions'; permissions: string[] }
+  | { name: string; kind: 'maxRoles'; max: number };
+
+/**
+ * Which separation-of-duty constraint a permission set violates, and how.
+ */
+export interface ConstraintViolation {
+  constraint: string;
+  kind: SeparationOfDutyConstraint['kind'];
+  // The conflicting roles or permissions held (for maxRoles: every assigned role)
+  held: string[];
+}
+
+/**
+ * A module's resources: names, or `{ name: [children] }` entries nesting to any depth.
+ * Grants on a resource cascade to every resource below it.
+ * @example ['settings', { boards: ['columns', { cards: ['comments'] }] }]
+ */
+export type ResourceTree = (string | { [resource: string]: ResourceTree | ResourceDefinition })[];
+
+/**
+ * A module or resource with its own actions. Its `hierarchy` extends the one it
+ * inherits (the global hierarchy for modules, the parent's for resources), or replaces
+ * it with `hierarchyMode: 'replace'`. Resources below it inherit the result.
+ * @example { resources: ['posts'], hierarchy: { approve: ['update'] } }
+ */
+export interface ResourceDefinition {
+  resources?: ResourceTree;
+  hierarchy?: Record<string, string[]>;
+  hierarchyMode?: 'extend' | 'replace';
+}
+
+/**
+ * Permission string format: "module.resource:action" (resources may nest: "module.a.b:action"), optionally targeting a single
+ * resource instance with "#id". Type-level grants imply every instance.
+ * @example "users:read", "posts.comments:update", "posts.comments:update#123"
  */
 export type PermissionString = string;
 
@@ -38,22 +85,129 @@ export interface Permission {
 /**
  * A predicate evaluated against the request context at check-time.
  * All predicates on a ConditionalPermission must return true for the grant to apply.
+ * Async predicates are only evaluated by the *Async check methods.
+ */
+export type Predicate = (ctx: EnrichedContext) => boolean | Promise<boolean>;
+
+/**
+ * How a check treats a predicate that throws, rejects or times out:
+ *  - failClosed: the predicate fails (the check reports the error)
+ *  - failOpen: the predicate passes (the check reports the error)
+ *  - throw: the check throws
+ */
+export type PredicateErrorPolicy = 'failClosed' | 'failOpen' | 'throw';
+
+export interface PredicateError {
+  name: string;
+  message: string;
+  policy: PredicateErrorPolicy;
+}
+
+/**
+ * Schema for one argument of a parameterized predicate.
+ * Arguments are required unless `optional` is set or a `default` is given.
+ */
+export interface PredicateArgSchema {
+  type: 'string' | 'number' | 'boolean' | 'string[]' | 'number[]' | 'any';
+  optional?: boolean;
+  default?: unknown;
+  // Allowed values (for scalar types)
+  enum?: (string | number)[];
+  // Inclusive bounds (for numbers)
+  min?: number;
+  max?: number;
+  // Extra check on a provided value; returns a problem description, or undefined if valid
+  validate?: (value: unknown) => string | undefined;
+}
+
+/**
+ * A predicate that takes per-grant arguments, declared with a schema so grants are
+ * validated when the config is compiled. Referenced from `when` as `{ name, args }`.
+ */
+export interface ParameterizedPredicate {
+  args: Record<string, PredicateArgSchema>;
+  evaluate: (ctx: EnrichedContext, args: Record<string, unknown>) => boolean | Promise<boolean>;
+}
+
+/**
+ * A declarative condition, e.g. `{ expr: 'resource.ownerId == user.id' }`.
+ * Parsed and type-checked against EnrichedContext when the config is compiled.
+ */
+export interface ConditionExpression {
+  expr: string;
+}
+
+/**
+ * A reference to a registered predicate with arguments,
+ * e.g. `{ name: 'timeWindow', args: { from: 9, to: 17, tz: 'Europe/Berlin' } }`.
+ */
+export interface PredicateCall {
+  name: string;
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Passes if any nested condition passes (evaluated in order, stopping at the first pass).
+ */
+export interface AnyOfCondition {
+  anyOf: Condition[];
+}
+
+/**
+ * Passes if every nested condition passes (evaluated in order, stopping at the first failure).
+ */
+export interface AllOfCondition {
+  allOf: Condition[];
+}
+
+/**
+ * Passes if the nested condition fails.
+ */
+export interface NotCondition {
+  not: Condition;
+}
+
+/**
+ * A condition on a grant: the name of a registered predicate, an expression, or a
+ * boolean composition of conditions.
+ */
+export type Condition = string | PredicateCall | ConditionExpression | AnyOfCondition | AllOfCondition | NotCondition;
+
+/**
+ * When a grant or role assignment applies: from `validFrom` (inclusive) until `expiresAt`
+ * (exclusive). Dates or ISO 8601 strings, compared with EnrichedContext.timestamp
+ * (or the current time).
  */
-export type Predicate = (ctx: EnrichedContext) => boolean;
+export interface ValidityWindow {
+  validFrom?: Date | string;
+  expiresAt?: Date | string;
+}
 
 /**
- * A permission grant guarded by one or more named predicates.
- * The referenced predicate name(s) must be registered in PermissionServiceOptions.predicates.
+ * A permission grant guarded by one or more conditions (a list means all of them)
+ * and/or a validity window. Named predicates must be registered in
+ * PermissionServiceOptions.predicates.
  */
-export interface ConditionalPermission {
+export interface ConditionalPermission extends ValidityWindow {
   permission: PermissionString;
-  when: string | string[];
+  when?: Condition | Condition[];
 }
 
 /**
- * A permission entry on a role: either a plain permission string, or a conditional grant.
+ * An explicit deny on a role. Denies override every grant (deny-overrides): if any role
+ * reachable from the user's permissions denies a permission, no grant can allow it.
+ * A deny covers the permission's narrower scopes (module -> resources) and every
+ * permission that would imply it through the action hierarchy (e.g. denying
+ * "posts:update" also blocks "posts:delete", but not "posts:read").
  */
-export type RolePermissionEntry = PermissionString | ConditionalPermission;
+export interface DenyPermission {
+  deny: PermissionString;
+}
+
+/**
+ * A permission entry on a role: a plain permission string, a conditional grant, or an explicit deny.
+ */
+export type RolePermissionEntry = PermissionString | ConditionalPermission | DenyPermission;
 
 /**
  * Role definition with permissions and inheritance
@@ -66,20 +220,324 @@ export interface Role {
   description?: string;
 }
 
+/**
+ * An object type for relationship-based access (Zanzibar-style).
+ * Objects of the type are instances of `resource`: holding a relation on "document:42"
+ * grants the relation's permissions on instance 42, e.g. "docs.document:read#42".
+ */
+export interface RelationTypeDefinition {
+  // Module or module.resource whose instances these objects are, e.g. "docs.document"
+  resource?: string;
+  relations: Record<string, RelationDefinition>;
+}
+
+/**
+ * A relation on an object type. Subjects hold it through a direct tuple, through any
+ * relation it includes (computed userset), or through a relation on a linked object
+ * (tuple-to-userset, e.g. viewers of a document's parent folder).
+ */
+export interface RelationDefinition {
+  // Permissions on the object granted to holders, within the type's resource
+  permissions?: PermissionString[];
+  // Holders of these relations on the same object also hold this one
+  includes?: string[];
+  // Holders of `relation` on any object linked to this one by a `through` tuple also hold this one
+  fromParent?: { through: string; relation: string }[];
+}
+
+/**
+ * A relationship tuple "object#relation@subject", e.g. "document:42#viewer@user:alice".
+ * The subject is an object ("user:alice", "folder:7") or a userset ("group:eng#member").
+ */
+export interface RelationTuple {
+  object: string;
+  relation: string;
+  subject: string;
+}
+
+/**
+ * Storage backend for relationship tuples. Implement it to keep tuples in an external
+ * store; PermissionService defaults to an in-memory store.
+ */
+export interface TupleStoreAdapter {
+  write(tuples: RelationTuple[]): void;
+  delete(tuples: RelationTuple[]): void;
+  // Every tuple with this object and relation
+  read(object: string, relation: string): RelationTuple[];
+}
+
+/**
+ * Who holds roles: a user, a group or a service account. A subject gets the roles
+ * and direct permissions of every group it belongs to (groups may nest).
+ */
+export interface Subject {
+  id: string;
+  type: SubjectType;
+  // Role IDs ("editor"), or time-bound assignments
+  roles?: (string | RoleAssignment)[];
+  // Permissions granted directly rather than through a role
+  permissions?: string[];
+  // IDs of the groups this subject is a member of
+  groups?: string[];
+}
+
+export type SubjectType = 'user' | 'group' | 'service';
+
+/**
+ * A role assigned to a subject for a limited time, e.g. a contractor's editor role.
+ */
+export interface RoleAssignment extends ValidityWindow {
+  role: string;
+}
+
+/**
+ * A time-bound grant or role assignment that would have applied, but not at the
+ * time of the check.
+ */
+export interface ExpiredMatch {
+  // Role carrying the grant, or the assigned role
+  role: string;
+  // The time-bound grant (absent when the role assignment itself is out of its window)
+  permission?: string;
+  // Subject holding the role assignment (assignments only)
+  subjectId?: string;
+  state: 'expired' | 'notYetValid';
+  validFrom?: string;
+  expiresAt?: string;
+}
+
+/**
+ * A grant or role assignment that expires soon (see PermissionService.getExpiringGrants).
+ */
+export interface ExpiringGrant {
+  role: string;
+  // The time-bound grant (absent for role assignments)
+  permission?: string;
+  // Subject holding the role assignment (assignments only)
+  subjectId?: string;
+  expiresAt: string;
+}
+
+/**
+ * A request to let `actor` act on behalf of `principal` with part of its access
+ * (see PermissionService.delegate).
+ */
+export interface DelegationRequest {
+  // Who delegates: a stored subject ID, or any ID when `permissions` is given
+  principal: string;
+  // The principal's user permissions (default: those of the stored subject)
+  permissions?: string[];
+  // Who acts, e.g. a support agent impersonating a customer or a bot
+  actor: string;
+  // Permissions, patterns ("posts.*:read") or role IDs the actor may use
+  scope: string[];
+  expiresAt?: Date | string;
+}
+
+/**
+ * A derived permission set: the principal's effective permissions within the requested
+ * scope. Pass it wherever user permissions are accepted.
+ */
+export interface Delegation {
+  actor: string;
+  principal: string;
+  // The principal's user permissions when the delegation was made
+  principalPermissions: string[];
+  // Most general permissions of the derived set
+  permissions: string[];
+  expiresAt?: string;
+}
+
+/**
+ * Storage backend for subjects and their role assignments. Implement it to keep
+ * assignments in an external store; PermissionService defaults to an in-memory store.
+ */
+export interface AssignmentStoreAdapter {
+  get(id: string): Subject | undefined;
+  // Insert or replace the subject with this ID
+  put(subject: Subject): void;
+  delete(id: string): void;
+  list(): Subject[];
+}
+
 /**
  * Runtime options for PermissionService
  */
 export interface PermissionServiceOptions {
-  predicates?: Record<string, Predicate>;
+  predicates?: Record<string, Predicate | ParameterizedPredicate>;
+  // How long async checks wait for a predicate before counting it as failed (default 5000)
+  predicateTimeoutMs?: number;
+  // What a predicate error (throw, rejection or timeout) does, by predicate name, with
+  // '*' for every other predicate (default: 'failClosed')
+  onPredicateError?: Record<string, PredicateErrorPolicy>;
+  // Load a compiled policy instead of building it (see PermissionService.fromSnapshot)
+  snapshot?: PolicySnapshot | Buffer | string;
+  // Tenant layers keyed by organizationId (see PermissionService.setTenant)
+  tenants?: Record<string, TenantOverrides>;
+  // Relationship tuple storage (defaults to an InMemoryTupleStore)
+  tupleStore?: TupleStoreAdapter;
+  // Subjects and role assignments for check() (defaults to an InMemoryAssignmentStore)
+  assignmentStore?: AssignmentStoreAdapter;
+  // Emergency access (see PermissionService.activateBreakGlass)
+  breakGlass?: BreakGlassOptions;
+  // Record decisions made by the public checks (see PermissionService.onDecision)
+  decisionLog?: DecisionLogOptions;
+  // Check and predicate metrics (see PrometheusMetrics)
+  metrics?: MetricsCollector;
+  // A span for every check made by the public check methods
+  tracer?: CheckTracer;
+}
+
+/**
+ * Receives check and predicate metrics. Checks are those made by hasPermission, can.*,
+ * checkPermissionDetailed, check and their async forms.
+ */
+export interface MetricsCollector {
+  recordCheck(permission: string, allowed: boolean, latencyMs: number): void;
+  // A check that threw (e.g. an async predicate on a sync check, or the 'throw' error policy)
+  recordCheckError?(permission: string, latencyMs: number): void;
+  recordPredicate(name: string, outcome: PredicateOutcome): void;
+}
+
+// 'error': the predicate threw or rejected; 'timeout': an async predicate did not settle in time
+export type PredicateOutcome = 'passed' | 'failed' | 'error' | 'timeout';
+
+/**
+ * Span hooks for tracing, shaped after OpenTelemetry's Tracer and Span.
+ * Checks start an 'authz.check' span with the permission (and subject and organization
+ * when known), and set 'authz.allowed' and 'authz.path' before ending it. A check that
+ * throws sets 'authz.error' and an error status instead.
+ */
+export interface CheckTracer {
+  startSpan(name: string, attributes: Record<string, string | number | boolean>): CheckSpan;
+}
+
+export interface CheckSpan {
+  setAttributes(attributes: Record<string, string | number | boolean>): void;
+  // Called with OpenTelemetry's SpanStatusCode.ERROR (2) when the check throws
+  setStatus?(status: { code: number; message?: string }): void;
+  end(): void;
+}
+
+export interface DecisionLogOptions {
+  sinks?: DecisionSink[];
+  // Fraction of decisions recorded, from 0 to 1 (default 1)
+  sampleRate?: number;
+  // How context.resource appears in records: replaced with '[redacted]' (true, the
+  // default), kept as is (false), or mapped by a function
+  redactResource?: boolean | ((resource: unknown) => unknown);
+}
+
+/**
+ * Receives decision records. Writes are synchronous; an error thrown by a sink
+ * propagates to the check that made the decision.
+ */
+export interface DecisionSink {
+  write(record: DecisionRecord): void;
+}
+
+/**
+ * One decision made by hasPermission, can.*, checkPermissionDetailed, check and their
+ * async forms.
+ */
+export interface DecisionRecord {
+  at: string;
+  // The context's userId, or its subject when no user ID is given
+  subject?: string;
+  permission: string;
+  allowed: boolean;
+  matchedVia?: PermissionMatch;
+  deniedBy?: DenyMatch;
+  // Names of the predicates that failed
+  failedPredicates: string[];
+  // Predicates that threw, rejected or timed out
+  predicateErrors?: PredicateError[];
+  latencyMs: number;
+  // Hash of the config the decision was made with (see PermissionService.getConfigVersion)
+  configVersion: string;
+  organizationId?: string;
+  // Delegated checks
+  actor?: string;
+  principal?: string;
+  // Decided with the break-glass role
+  breakGlass?: boolean;
+  // The check's context, with `resource` redacted
+  context?: EnrichedContext;
+}
+
+/**
+ * Break-glass access: an emergency role that users only get while activated, and only
+ * for checks whose context carries a justification.
+ */
+export interface BreakGlassOptions {
+  // The emergency role. It cannot be assigned to subjects or inherited by other roles.
+  role: string;
+  // Longest allowed activation (default: one hour)
+  maxDurationMs?: number;
+  // Receives every activation and every decision made through the emergency role.
+  // A sink that throws fails the activation or check.
+  sink: (event: BreakGlassEvent) => void;
+}
+
+export interface BreakGlassActivation {
+  userId: string;
+  // Why emergency access is needed, e.g. an incident reference
+  justification: string;
+  activatedAt: string;
+  expiresAt: string;
+}
+
+export interface BreakGlassEvent {
+  type: 'activated' | 'deactivated' | 'decision';
+  at: string;
+  activation: BreakGlassActivation;
+  // Decisions only: the check, its outcome and the justification its context carried
+  permission?: string;
+  allowed?: boolean;
+  justification?: string;
+}
+
+/**
+ * Per-tenant customization layered on the base RBACConfig.
+ * Selected at check-time by EnrichedContext.organizationId.
+ */
+export interface TenantOverrides {
+  // Roles added for this tenant, or replacing a base role with the same ID
+  roles?: Record<string, Role>;
+  // Modules hidden from this tenant; base role grants targeting them are dropped
+  disabledModules?: string[];
 }
 
 /**
- * Permission graph for fast lookups
+ * A compiled policy as emitted by PermissionService.compile().
+ * IDs refer to positions in `nodes`; rows are base64-encoded little-endian Uint32 words.
+ */
+export interface PolicySnapshot {
+  format: 'authz-engine/policy-snapshot';
+  version: number;
+  configHash: string;
+  // Interned node names by ID; null for nodes retired by a hot reload
+  nodes: (string | null)[];
+  // [nodeId, wordOffset, words]
+  rows: [number, number, string][];
+  // [roleId, permissionId, conditions, instance?, window?] (window times in epoch milliseconds)
+  conditionalGrants: [number, number, Condition[], (string | null)?, { validFrom?: number; expiresAt?: number }?][];
+  // [roleId, blockedPermissionId, denyingRoleId, denyId]
+  blockedBy: [number, number, number, number][];
+  // [roleId, instance, permissionId], flattened through inheritance
+  instanceGrants: [number, string, number][];
+  // [semantic method name, permission]
+  methods: [string, string][];
+}
+
+/**
+ * Direct-grant permission graph, as built from the config.
+ * Its transitive closure is compiled into interned bitset rows for lookups.
  */
 export interface PermissionGraph {
-  // grants[permission] = Set of all permissions this permission grants
+  // grants[permission] = Set of permissions this permission directly grants
   grants: Map<string, Set<string>>;
-  // grantedBy[permission] = Set of all permissions that grant this permission
+  // grantedBy[permission] = Set of permissions that directly grant this permission
   grantedBy: Map<string, Set<string>>;
 }
 
@@ -99,9 +557,41 @@ export interface RBACStats {
  */
 export interface PermissionMatch {
   userPermission: string;
-  path: 'unconditional' | 'conditional';
+  path: 'unconditional' | 'conditional' | 'instance' | 'relation';
   conditionalPermission?: string;
+  instancePermission?: string;
+  // For the conditional path: how the grant's condition tree was evaluated
+  conditions?: ConditionResult;
+  // For the relation path: the relation held on the object, and the tuples that prove it
+  relation?: string;
+  relationPath?: string[];
   predicates?: { name: string; passed: boolean }[];
+  // For time-bound grants: when the matched grant expires
+  expiresAt?: string;
+}
+
+/**
+ * Outcome of one node of a condition tree. Nodes after the one that decided an
+ * anyOf/allOf are not evaluated and are reported as skipped.
+ */
+export interface ConditionResult {
+  kind: 'predicate' | 'expr' | 'anyOf' | 'allOf' | 'not';
+  // Predicate name or expression source (leaves only)
+  name?: string;
+  // Arguments of a parameterized predicate
+  args?: Record<string, unknown>;
+  passed: boolean;
+  skipped?: boolean;
+  children?: ConditionResult[];
+}
+
+/**
+ * Explains which explicit deny blocked a permission check.
+ */
+export interface DenyMatch {
+  userPermission: string;
+  role: string;
+  deny: string;
 }
 
 /**
@@ -109,11 +599,64 @@ export interface PermissionMatch {
  */
 export interface PermissionCheckResult {
   allowed: boolean;
+  // 'indeterminate': denied, but a predicate that might have allowed the check failed
+  // with an error (fail-closed) rather than returning false
+  decision: 'allow' | 'deny' | 'indeterminate';
   permission: string;
   userPermissions: string[];
+  // Predicates that threw, rejected or timed out during the check
+  predicateErrors?: PredicateError[];
   reason?: string;
   matchedVia?: PermissionMatch;
+  deniedBy?: DenyMatch;
   evaluatedPredicates?: { name: string; passed: boolean }[];
+  // Time-bound grants and role assignments that would have allowed the check at another time
+  expired?: ExpiredMatch[];
+  // The separation-of-duty constraint the user's permissions violate
+  violation?: ConstraintViolation;
+  // Delegated checks: who acted, and on whose behalf
+  actor?: string;
+  principal?: string;
+  // Set when the check was decided with the break-glass role
+  breakGlass?: { activation: BreakGlassActivation; justification: string };
+}
+
+/**
+ * One expected outcome in a policy test suite
+ */
+export interface PolicyTestCase {
+  name?: string;
+  // The roles and permissions of the subject
+  permissions: string[];
+  permission: string;
+  context?: EnrichedContext;
+  expect: PermissionCheckResult['decision'];
+  // The matchedVia.path an allowed check must take
+  path?: PermissionMatch['path'];
+}
+
+/**
+ * A policy test suite file (YAML or JSON)
+ */
+export interface PolicyTestSuite {
+  // The RBACConfig to test, relative to the suite file
+  config?: string;
+  cases: PolicyTestCase[];
+}
+
+export interface PolicyTestResult {
+  case: PolicyTestCase;
+  passed: boolean;
+  // What did not match, e.g. "expected allow, got deny"
+  failures: string[];
+  // Unset if the check threw
+  result?: PermissionCheckResult;
+}
+
+export interface PolicyTestReport {
+  passed: number;
+  failed: number;
+  results: PolicyTestResult[];
 }
 
 /**
@@ -131,11 +674,15 @@ export interface ValidationResult {
  */
 export interface EnrichedContext {
   userId?: string;
+  // Subject for relationship checks, e.g. "user:alice" (defaults to "user:<userId>")
+  subject?: string;
   organizationId?: string;
   endpoint?: string;
   method?: string;
   ip?: string;
   timestamp?: Date;
+  // Why the user needs break-glass access for this request (see BreakGlassOptions)
+  justification?: string;
   resource?: unknown;
   resourceType?: string;
   metadata?: Record<string, unknown>;
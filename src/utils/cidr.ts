@@ -0,0 +1,89 @@
+/**
+ * CIDR matching for IPv4 and IPv6 addresses
+ * IPv4-mapped IPv6 addresses ("::ffff:10.0.0.1") match IPv4 ranges.
+ */
+
+export interface CidrRange {
+  version: 4 | 6;
+  network: bigint;
+  prefix: number;
+}
+
+interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+/**
+ * Parse "10.0.0.0/8", "2001:db8::/32" or a bare address (a single-host range).
+ */
+export function parseCidr(cidr: string): CidrRange | undefined {
+  const [address, bits, ...rest] = cidr.trim().split('/');
+  const ip = parseIp(address);
+  if (!ip || rest.length > 0) return undefined;
+
+  const width = ip.version === 4 ? 32 : 128;
+  if (bits !== undefined && !/^\d{1,3}$/.test(bits)) return undefined;
+  const prefix = bits === undefined ? width : Number(bits);
+  if (prefix > width) return undefined;
+
+  return { version: ip.version, network: ip.value & mask(width, prefix), prefix };
+}
+
+/**
+ * Is `address` inside `range`? Unparseable addresses are never inside.
+ */
+export function cidrContains(range: CidrRange, address: string): boolean {
+  const ip = parseIp(address);
+  if (!ip || ip.version !== range.version) return false;
+  const width = ip.version === 4 ? 32 : 128;
+  return (ip.value & mask(width, range.prefix)) === range.network;
+}
+
+function mask(width: number, prefix: number): bigint {
+  const all = (1n << BigInt(width)) - 1n;
+  return all ^ ((1n << BigInt(width - prefix)) - 1n);
+}
+
+function parseIp(address: string): ParsedIp | undefined {
+  if (!address) return undefined;
+  if (!address.includes(':')) {
+    const value = parseIpv4(address);
+    return value === undefined ? undefined : { version: 4, value };
+  }
+
+  const value = parseIpv6(address);
+  if (value === undefined) return undefined;
+  // IPv4-mapped (::ffff:a.b.c.d) addresses are treated as the IPv4 address
+  if (value >> 32n === 0xffffn) return { version: 4, value: value & 0xffffffffn };
+  return { version: 6, value };
+}
+
+function parseIpv4(address: string): bigint | undefined {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some(p => !/^\d{1,3}$/.test(p) || Number(p) > 255)) return undefined;
+  return parts.reduce((acc, p) => (acc << 8n) | BigInt(p), 0n);
+}
+
+function parseIpv6(address: string): bigint | undefined {
+  let text = address.split('%')[0].toLowerCase();
+
+  // Trailing embedded IPv4 ("::ffff:10.0.0.1") becomes two hex groups
+  const lastColon = text.lastIndexOf(':');
+  if (text.slice(lastColon + 1).includes('.')) {
+    const v4 = parseIpv4(text.slice(lastColon + 1));
+    if (v4 === undefined) return undefined;
+    text = `${text.slice(0, lastColon + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return undefined;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return undefined;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some(g => !/^[0-9a-f]{1,4}$/.test(g))) return undefined;
+  return groups.reduce((acc, g) => (acc << 16n) | BigInt(parseInt(g, 16)), 0n);
+}
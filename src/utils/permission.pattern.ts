@@ -0,0 +1,58 @@
+/**
+ * Permission Patterns - glob-style grants across modules and resources
+ *   "*.comments:read"        the comments resource of every module
+ *   "posts.*:update"         every direct resource of posts
+ *   "admin.{users,logs}:read" alternatives
+ * `*` matches within a single path segment or action; it never crosses '.' or ':'.
+ * The plain wildcards "*:read" and "posts:*" are permissions, not patterns.
+ */
+
+/**
+ * Does `permission` (without an instance suffix) need expanding?
+ */
+export function isPermissionPattern(permission: string): boolean {
+  if (permission.includes('{')) return true;
+  const [resource, action = ''] = permission.split(':');
+  return (resource.includes('*') && resource !== '*') || (action.includes('*') && action !== '*');
+}
+
+/**
+ * Compile a pattern into an anchored RegExp. Throws on unbalanced or nested braces.
+ */
+export function compilePermissionPattern(pattern: string): RegExp {
+  let source = '';
+  let inBraces = false;
+
+  for (const char of pattern) {
+    if (char === '{') {
+      if (inBraces) throw new Error(`Invalid permission pattern '${pattern}'. Braces cannot be nested.`);
+      inBraces = true;
+      source += '(?:';
+    } else if (char === '}') {
+      if (!inBraces) throw new Error(`Invalid permission pattern '${pattern}'. Unbalanced '}'.`);
+      inBraces = false;
+      source += ')';
+    } else if (char === ',' && inBraces) {
+      source += '|';
+    } else if (char === '*') {
+      source += '[^.:]*';
+    } else {
+      source += char.replace(/[\\^$.|?+()[\]]/g, '\\$&');
+    }
+  }
+  if (inBraces) throw new Error(`Invalid permission pattern '${pattern}'. Unbalanced '{'.`);
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * The permissions in `permissions` that `pattern` matches (role nodes never match).
+ */
+export function expandPermissionPattern(pattern: string, permissions: Iterable<string>): string[] {
+  const regex = compilePermissionPattern(pattern);
+  const matches: string[] = [];
+  for (const permission of permissions) {
+    if (!permission.startsWith('role:') && regex.test(permission)) matches.push(permission);
+  }
+  return matches;
+}
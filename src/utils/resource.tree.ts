@@ -0,0 +1,103 @@
+/**
+ * Resource Trees - flatten RBACConfig.modules into dotted resource paths
+ * A module's resources are a list of names or nested `{ name: [children] }` entries:
+ *   projects: ['settings', { boards: ['columns', { cards: ['comments'] }] }]
+ * yields projects, projects.settings, projects.boards, projects.boards.columns, ...
+ * Any level may instead be a ResourceDefinition declaring its own action hierarchy.
+ */
+
+import { RBACConfig, ResourceDefinition, ResourceTree } from '../types';
+
+export interface ResourceNode {
+  // Dotted path, e.g. "projects.boards.cards"
+  path: string;
+  // Path of the enclosing module/resource (undefined for modules)
+  parent?: string;
+  // Last path segment
+  name: string;
+  // 0 for modules, 1 for their resources, and so on
+  depth: number;
+  // Actions available on this node and their implications
+  hierarchy: Record<string, string[]>;
+}
+
+const INVALID_NAME = /[.:#@*\s]/;
+
+/**
+ * Every module and nested resource, parents before children. Modules start from the
+ * global `hierarchy`; definitions below extend or replace what they inherit.
+ * Throws on invalid names, duplicate siblings or hierarchies implying unknown actions.
+ */
+export function flattenModules(
+  modules: RBACConfig['modules'],
+  hierarchy: Record<string, string[]> = {}
+): ResourceNode[] {
+  const nodes: ResourceNode[] = [];
+
+  const visit = (
+    name: string,
+    parent: string | undefined,
+    depth: number,
+    value: ResourceTree | ResourceDefinition,
+    inherited: Record<string, string[]>
+  ) => {
+    if (!name || INVALID_NAME.test(name)) {
+      throw new Error(`Invalid ${depth === 0 ? 'module' : 'resource'} name '${name}'${parent ? ` under '${parent}'` : ''}. Names cannot contain '.', ':', '#', '@', '*' or whitespace.`);
+    }
+    const path = parent ? `${parent}.${name}` : name;
+
+    if (value === null || typeof value !== 'object') {
+      throw new Error(`Resources of '${path}' must be a list or a resource definition.`);
+    }
+    const definition: ResourceDefinition = Array.isArray(value) ? { resources: value } : value;
+    const children = definition.resources ?? [];
+    if (!Array.isArray(children)) {
+      throw new Error(`Resources of '${path}' must be a list.`);
+    }
+
+    const own = definition.hierarchy ? resolveHierarchy(path, definition, inherited) : inherited;
+    nodes.push({ path, parent, name, depth, hierarchy: own });
+
+    const seen = new Set<string>();
+    const child = (childName: string, grandchildren: ResourceTree | ResourceDefinition) => {
+      if (seen.has(childName)) {
+        throw new Error(`Duplicate resource '${childName}' under '${path}'.`);
+      }
+      seen.add(childName);
+      visit(childName, path, depth + 1, grandchildren, own);
+    };
+    children.forEach(entry => {
+      if (typeof entry === 'string') {
+        child(entry, []);
+      } else {
+        Object.entries(entry).forEach(([childName, grandchildren]) => child(childName, grandchildren));
+      }
+    });
+  };
+
+  Object.entries(modules).forEach(([module, resources]) => visit(module, undefined, 0, resources, hierarchy));
+  return nodes;
+}
+
+function resolveHierarchy(
+  path: string,
+  definition: ResourceDefinition,
+  inherited: Record<string, string[]>
+): Record<string, string[]> {
+  const { hierarchy = {}, hierarchyMode = 'extend' } = definition;
+  if (hierarchyMode !== 'extend' && hierarchyMode !== 'replace') {
+    throw new Error(`Invalid hierarchyMode '${hierarchyMode}' on '${path}'. Use 'extend' or 'replace'.`);
+  }
+
+  const resolved = hierarchyMode === 'replace' ? { ...hierarchy } : { ...inherited, ...hierarchy };
+  Object.entries(resolved).forEach(([action, implied]) => {
+    if (!action || INVALID_NAME.test(action)) {
+      throw new Error(`Invalid action name '${action}' on '${path}'. Names cannot contain '.', ':', '#', '@', '*' or whitespace.`);
+    }
+    const unknown = implied.find(impliedAction => !Object.prototype.hasOwnProperty.call(resolved, impliedAction));
+    if (unknown !== undefined) {
+      throw new Error(`Action '${action}' on '${path}' implies '${unknown}', which is not defined there.`);
+    }
+  });
+  return resolved;
+}
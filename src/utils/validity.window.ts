@@ -0,0 +1,53 @@
+/**
+ * Validity Windows - time bounds on grants and role assignments
+ * Windows are parsed once into epoch milliseconds: [validFrom, expiresAt).
+ */
+
+import { ValidityWindow } from '../types';
+
+export interface ParsedWindow {
+  validFrom?: number;
+  expiresAt?: number;
+}
+
+export type WindowState = 'active' | 'expired' | 'notYetValid';
+
+/**
+ * Parse a window, or undefined when it sets neither bound. `owner` names the grant or
+ * assignment in error messages.
+ */
+export function parseWindow(window: ValidityWindow, owner: string): ParsedWindow | undefined {
+  if (window.validFrom === undefined && window.expiresAt === undefined) return undefined;
+
+  const parsed: ParsedWindow = {};
+  (['validFrom', 'expiresAt'] as const).forEach(bound => {
+    const value = window[bound];
+    if (value === undefined) return;
+    const time = value instanceof Date ? value.getTime() : typeof value === 'string' ? Date.parse(value) : NaN;
+    if (Number.isNaN(time)) {
+      throw new Error(`Invalid ${bound} '${String(value)}' on ${owner}. Use a Date or an ISO 8601 string.`);
+    }
+    parsed[bound] = time;
+  });
+
+  if (parsed.validFrom !== undefined && parsed.expiresAt !== undefined && parsed.validFrom >= parsed.expiresAt) {
+    throw new Error(`Invalid window on ${owner}: validFrom must be before expiresAt.`);
+  }
+  return parsed;
+}
+
+export function windowState(window: ParsedWindow | undefined, at: number): WindowState {
+  if (window?.validFrom !== undefined && at < window.validFrom) return 'notYetValid';
+  if (window?.expiresAt !== undefined && at >= window.expiresAt) return 'expired';
+  return 'active';
+}
+
+/**
+ * The window's bounds as ISO strings, for explanations
+ */
+export function describeWindow(window: ParsedWindow): { validFrom?: string; expiresAt?: string } {
+  return {
+    ...(window.validFrom !== undefined ? { validFrom: new Date(window.validFrom).toISOString() } : {}),
+    ...(window.expiresAt !== undefined ? { expiresAt: new Date(window.expiresAt).toISOString() } : {})
+  };
+}
@@ -5,6 +5,7 @@
  */
 
 import { PermissionService } from '../core/permission.service';
+import { flattenModules, ResourceNode } from './resource.tree';
 
 export interface GraphNode {
   id: string;
@@ -95,8 +96,8 @@ export class PermissionVisualizer {
   generateModuleHierarchyVisualization(): string {
     const graphData = this.generateModuleHierarchyData();
     const rbacStructure = this.getRBACStructure();
-    const moduleCount = Object.keys(rbacStructure).length;
-    const totalSubmodules = Object.values(rbacStructure).reduce((sum, arr) => sum + arr.length, 0);
+    const moduleCount = rbacStructure.filter(node => node.depth === 0).length;
+    const totalSubmodules = rbacStructure.length - moduleCount;
 
     return `
       <!DOCTYPE html>
@@ -419,8 +420,8 @@ export class PermissionVisualizer {
             if (isModule) {
               const moduleName = nodeId.replace('module:', '');
               const submodules = graphData.nodes
-                .filter(n => n.id.startsWith('submodule:') && n.id.includes(moduleName + '.'))
-                .map(n => n.label);
+                .filter(n => n.id.startsWith('submodule:' + moduleName + '.'))
+                .map(n => n.id.replace('submodule:' + moduleName + '.', ''));
 
               details.innerHTML = \`
                 <h3>📦 \${moduleName.toUpperCase()}</h3>
@@ -433,14 +434,15 @@ export class PermissionVisualizer {
               \`;
             } else if (isSubmodule) {
               const submoduleName = nodeId.replace('submodule:', '');
-              const [module, resource] = submoduleName.split('.');
+              const path = submoduleName.split('.');
+              const resource = path.pop();
 
               details.innerHTML = \`
                 <h3>📄 \${resource}</h3>
                 <p style="font-size: 12px; color: #666; margin-bottom: 10px;">Submodule</p>
-                <div style="font-weight: 600; color: #667eea; font-size: 12px; margin-bottom: 5px;">Module:</div>
+                <div style="font-weight: 600; color: #667eea; font-size: 12px; margin-bottom: 5px;">\${path.length > 1 ? 'Path:' : 'Module:'}</div>
                 <div class="item-list">
-                  <div class="item">• \${module}</div>
+                  <div class="item">• \${path.join(' › ')}</div>
                 </div>
                 <button onclick="closeDetails()">Close</button>
               \`;
@@ -1044,27 +1046,10 @@ export class PermissionVisualizer {
   }
 
   /**
-   * Get the RBAC configuration for module/submodule structure visualization
+   * Get the configured modules and their (possibly nested) resources, parents first
    */
-  private getRBACStructure(): Record<string, string[]> {
-    return {
-      // User Management
-      users: ['profile', 'settings', 'roles'],
-
-      // Content Management
-      posts: ['draft', 'published', 'comments'],
-      pages: ['content', 'metadata', 'versions'],
-
-      // Community
-      comments: ['content', 'moderation'],
-      tags: ['management'],
-
-      // Administration
-      admin: ['users', 'content', 'settings', 'logs'],
-
-      // Analytics
-      analytics: ['dashboard', 'reports', 'exports']
-    };
+  private getRBACStructure(): ResourceNode[] {
+    return flattenModules(this.permissionService.getConfig().modules);
   }
 
   /**
@@ -1075,40 +1060,40 @@ export class PermissionVisualizer {
     const edges: GraphEdge[] = [];
     const rbacStructure = this.getRBACStructure();
 
-    // Add module nodes (green) and submodule nodes (red)
-    Object.entries(rbacStructure).forEach(([module, submodules]) => {
-      // Add module node in GREEN
-      nodes.push({
-        id: `module:${module}`,
-        label: module.toUpperCase(),
-        color: {
-          background: '#4CAF50',  // Green
-          border: '#388E3C'
-        },
-        font: { size: 13 },
-        group: 'module'
-      });
-
-      // Add submodule nodes in RED
-      submodules.forEach(submodule => {
-        const submoduleId = `${module}.${submodule}`;
+    // Add module nodes (green) and submodule nodes (red), nested to any depth
+    rbacStructure.forEach(({ path, parent, name, depth }) => {
+      if (parent === undefined) {
+        // Add module node in GREEN
         nodes.push({
-          id: `submodule:${submoduleId}`,
-          label: submodule,
+          id: `module:${path}`,
+          label: name.toUpperCase(),
           color: {
-            background: '#F44336',  // Red
-            border: '#C62828'
+            background: '#4CAF50',  // Green
+            border: '#388E3C'
           },
-          font: { size: 11 },
-          group: 'submodule'
+          font: { size: 13 },
+          group: 'module'
         });
+        return;
+      }
 
-        // Add edge from module to submodule
-        edges.push({
-          from: `module:${module}`,
-          to: `submodule:${submoduleId}`,
-          label: 'contains'
-        });
+      // Add submodule node in RED
+      nodes.push({
+        id: `submodule:${path}`,
+        label: name,
+        color: {
+          background: '#F44336',  // Red
+          border: '#C62828'
+        },
+        font: { size: depth === 1 ? 11 : 10 },
+        group: 'submodule'
+      });
+
+      // Add edge from the enclosing module or submodule
+      edges.push({
+        from: depth === 1 ? `module:${parent}` : `submodule:${parent}`,
+        to: `submodule:${path}`,
+        label: 'contains'
       });
     });
 
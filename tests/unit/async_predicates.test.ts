@@ -0,0 +1,99 @@
+/**
+ * Async predicate tests.
+ * Covers: hasPermissionAsync, parallel evaluation, timeouts, rejections,
+ * can.*Async, checkPermissionDetailedAsync and the sync-path error.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { RBACConfig, EnrichedContext } from '../../src/types';
+
+const config: RBACConfig = {
+  modules: { projects: ['tasks'] },
+  roles: {
+    member: {
+      id: 'member',
+      name: 'Member',
+      permissions: [
+        { permission: 'projects.tasks:update', when: 'isProjectMember' },
+        { permission: 'projects.tasks:read', when: ['isProjectMember', 'isActive'] }
+      ]
+    },
+    viewer: { id: 'viewer', name: 'Viewer', permissions: ['projects:read'] },
+    slow: { id: 'slow', name: 'Slow', permissions: [{ permission: 'projects:delete', when: 'hangs' }] },
+    broken: { id: 'broken', name: 'Broken', permissions: [{ permission: 'projects:delete', when: 'rejects' }] }
+  }
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const memberships: Record<string, string[]> = { alice: ['p1'] };
+let calls: string[] = [];
+
+const rbac = new PermissionService(config, {
+  predicateTimeoutMs: 50,
+  predicates: {
+    isProjectMember: async (ctx: EnrichedContext) => {
+      calls.push('isProjectMember');
+      await delay(5);
+      return (memberships[ctx.userId ?? ''] ?? []).includes(ctx.metadata?.projectId as string);
+    },
+    isActive: (ctx: EnrichedContext) => {
+      calls.push('isActive');
+      return ctx.metadata?.active === true;
+    },
+    hangs: () => new Promise<boolean>(() => undefined),
+    rejects: async () => {
+      throw new Error('db down');
+    }
+  }
+});
+
+const alice: EnrichedContext = { userId: 'alice', metadata: { projectId: 'p1', active: true } };
+const bob: EnrichedContext = { userId: 'bob', metadata: { projectId: 'p1', active: true } };
+
+describe('Async predicates', () => {
+  beforeEach(() => {
+    calls = [];
+  });
+
+  it('evaluates async predicates in hasPermissionAsync', async () => {
+    await expect(rbac.hasPermissionAsync(['member'], 'projects.tasks:update', alice)).resolves.toBe(true);
+    await expect(rbac.hasPermissionAsync(['member'], 'projects.tasks:update', bob)).resolves.toBe(false);
+  });
+
+  it('skips predicates when an unconditional grant already matches', async () => {
+    await expect(rbac.hasPermissionAsync(['viewer', 'member'], 'projects.tasks:read', alice)).resolves.toBe(true);
+    expect(calls).toEqual([]);
+  });
+
+  it('runs each reachable predicate once', async () => {
+    await expect(rbac.hasPermissionAsync(['member'], 'projects.tasks:read', alice)).resolves.toBe(true);
+    expect(calls.sort()).toEqual(['isActive', 'isProjectMember']);
+  });
+
+  it('fails predicates that time out or reject', async () => {
+    await expect(rbac.hasPermissionAsync(['slow'], 'projects:delete', alice)).resolves.toBe(false);
+    await expect(rbac.hasPermissionAsync(['slow'], 'projects:delete', alice, { timeoutMs: 1 })).resolves.toBe(false);
+    await expect(rbac.hasPermissionAsync(['broken'], 'projects:delete', alice)).resolves.toBe(false);
+  });
+
+  it('exposes can.*Async methods', async () => {
+    await expect(rbac.can.updateProjectsTasksAsync(['member'], alice)).resolves.toBe(true);
+    await expect(rbac.can.updateProjectsTasksAsync(['member'], bob)).resolves.toBe(false);
+  });
+
+  it('explains async checks', async () => {
+    const result = await rbac.checkPermissionDetailedAsync(['member'], 'projects.tasks:read', bob);
+    expect(result.allowed).toBe(false);
+    expect(result.evaluatedPredicates).toContainEqual({ name: 'isProjectMember', passed: false });
+    // isProjectMember failing decides both grants, so isActive is never needed
+    expect(result.evaluatedPredicates).not.toContainEqual(expect.objectContaining({ name: 'isActive' }));
+  });
+
+  it('throws when the sync path reaches an async predicate', () => {
+    expect(() => rbac.hasPermission(['member'], 'projects.tasks:update', alice)).toThrow(
+      /Predicate 'isProjectMember' is async. Use hasPermissionAsync\(\)/
+    );
+    expect(() => rbac.can.updateProjectsTasks(['member'], alice)).toThrow(/is async/);
+    expect(rbac.hasPermission(['viewer'], 'projects.tasks:read', alice)).toBe(true);
+  });
+});
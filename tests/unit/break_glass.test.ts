@@ -0,0 +1,133 @@
+/**
+ * Break-glass tests.
+ * Covers: activation and its limits, the context justification, expiry and
+ * deactivation, audit events, flagged results, and rules on the emergency role.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { BreakGlassEvent, RBACConfig } from '../../src/types';
+
+const config: RBACConfig = {
+  modules: { posts: ['content'], billing: ['invoices'] },
+  roles: {
+    oncall: { id: 'oncall', name: 'On-call', permissions: ['posts:read'] },
+    emergency: { id: 'emergency', name: 'Emergency', permissions: ['posts:*', 'billing:*'] }
+  }
+};
+
+const start = new Date('2026-03-01T10:00:00Z');
+const at = (minutes: number) => new Date(start.getTime() + minutes * 60 * 1000);
+const incident = (minutes: number) => ({ userId: 'ann', justification: 'INC-42 billing outage', timestamp: at(minutes) });
+
+describe('Break-glass access', () => {
+  const build = () => {
+    const events: BreakGlassEvent[] = [];
+    const rbac = new PermissionService(config, {
+      breakGlass: { role: 'emergency', maxDurationMs: 60 * 60 * 1000, sink: event => events.push(event) }
+    });
+    return { rbac, events };
+  };
+
+  it('grants the emergency role while activated, with a justification', () => {
+    const { rbac } = build();
+    expect(rbac.hasPermission(['oncall'], 'billing:delete', incident(1))).toBe(false);
+
+    rbac.activateBreakGlass('ann', 'INC-42 billing outage', 30 * 60 * 1000, start);
+    expect(rbac.hasPermission(['oncall'], 'billing:delete', incident(1))).toBe(true);
+    expect(rbac.hasPermission(['oncall'], 'billing:delete', { ...incident(1), justification: ' ' })).toBe(false);
+    expect(rbac.hasPermission(['oncall'], 'billing:delete', { ...incident(1), userId: 'bob' })).toBe(false);
+    expect(rbac.hasPermission(['oncall'], 'billing:delete', incident(30))).toBe(false);
+  });
+
+  it('ignores the emergency role held directly', () => {
+    const { rbac } = build();
+    expect(rbac.hasPermission(['emergency'], 'billing:delete', incident(1))).toBe(false);
+    expect(rbac.hasPermission(['role:emergency'], 'posts:read')).toBe(false);
+  });
+
+  it('ends activations early', () => {
+    const { rbac, events } = build();
+    rbac.activateBreakGlass('ann', 'INC-42 billing outage', undefined, start);
+    rbac.deactivateBreakGlass('ann', at(5));
+    expect(rbac.hasPermission(['oncall'], 'billing:delete', incident(6))).toBe(false);
+    expect(events.map(event => event.type)).toEqual(['activated', 'deactivated']);
+  });
+
+  it('audits activations and decisions made through the emergency role', () => {
+    const { rbac, events } = build();
+    const activation = rbac.activateBreakGlass('ann', 'INC-42 billing outage', 10 * 60 * 1000, start);
+    expect(activation).toEqual({
+      userId: 'ann',
+      justification: 'INC-42 billing outage',
+      activatedAt: '2026-03-01T10:00:00.000Z',
+      expiresAt: '2026-03-01T10:10:00.000Z'
+    });
+
+    rbac.hasPermission(['oncall'], 'posts:read', incident(1));
+    rbac.can.deleteBilling(['oncall'], { ...incident(2), justification: 'Refund stuck invoices' });
+
+    expect(events).toEqual([
+      { type: 'activated', at: '2026-03-01T10:00:00.000Z', activation },
+      {
+        type: 'decision',
+        at: '2026-03-01T10:02:00.000Z',
+        activation,
+        permission: 'billing:delete',
+        allowed: true,
+        justification: 'Refund stuck invoices'
+      }
+    ]);
+  });
+
+  it('flags results decided with the emergency role', async () => {
+    const { rbac } = build();
+    const activation = rbac.activateBreakGlass('ann', 'INC-42 billing outage', undefined, start);
+
+    const own = rbac.checkPermissionDetailed(['oncall'], 'posts:read', incident(1));
+    expect(own.breakGlass).toBeUndefined();
+
+    const result = rbac.checkPermissionDetailed(['oncall'], 'billing.invoices:update', incident(1));
+    expect(result.allowed).toBe(true);
+    expect(result.breakGlass).toEqual({ activation, justification: 'INC-42 billing outage' });
+    expect(result.reason).toBe(
+      "Granted via 'role:emergency' (unconditional). Break-glass access by 'ann': INC-42 billing outage."
+    );
+
+    const asyncResult = await rbac.checkPermissionDetailedAsync(['oncall'], 'billing:create', incident(2));
+    expect(asyncResult.breakGlass?.activation).toEqual(activation);
+  });
+
+  it('fails when the sink cannot record the activation', () => {
+    const rbac = new PermissionService(config, {
+      breakGlass: { role: 'emergency', sink: () => { throw new Error('audit log unavailable'); } }
+    });
+    expect(() => rbac.activateBreakGlass('ann', 'INC-42', undefined, start)).toThrow('audit log unavailable');
+    expect(rbac.hasPermission(['oncall'], 'billing:delete', incident(1))).toBe(false);
+  });
+
+  it('validates activations', () => {
+    const { rbac } = build();
+    expect(() => rbac.activateBreakGlass('ann', '  ')).toThrow("Break-glass activation for 'ann' needs a justification.");
+    expect(() => rbac.activateBreakGlass('ann', 'INC-42', 2 * 60 * 60 * 1000))
+      .toThrow("Invalid break-glass duration 7200000 ms for 'ann'. Use at most 3600000 ms.");
+    expect(() => new PermissionService(config).activateBreakGlass('ann', 'INC-42'))
+      .toThrow('Break-glass access is not configured. Set PermissionServiceOptions.breakGlass.');
+  });
+
+  it('keeps the emergency role out of assignments and inheritance', () => {
+    const { rbac } = build();
+    expect(() => rbac.saveSubject({ id: 'ann', type: 'user', roles: ['emergency'] }))
+      .toThrow("Break-glass role 'emergency' cannot be assigned to subject 'ann'. Use activateBreakGlass().");
+    expect(() => rbac.addRole({ id: 'admin', name: 'Admin', permissions: [], inherits: ['emergency'] }))
+      .toThrow("Role 'admin' inherits the break-glass role 'emergency', which can only be activated.");
+    expect(() => new PermissionService(config, { breakGlass: { role: 'root', sink: () => undefined } }))
+      .toThrow("Break-glass role 'root' is not defined.");
+  });
+
+  it('applies to stored subjects', () => {
+    const { rbac } = build();
+    rbac.saveSubject({ id: 'ann', type: 'user', roles: ['oncall'] });
+    rbac.activateBreakGlass('ann', 'INC-42 billing outage', undefined, start);
+    expect(rbac.check('ann', 'billing:delete', { justification: 'INC-42', timestamp: at(1) })).toBe(true);
+  });
+});
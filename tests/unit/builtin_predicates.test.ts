@@ -0,0 +1,119 @@
+/**
+ * Built-in predicate library tests.
+ * Covers: ownership, same organization, IPv4/IPv6 CIDR matching, time windows
+ * across time zones and midnight, HTTP methods, metadata equality, and
+ * construction-time argument validation.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { BUILTIN_PREDICATES } from '../../src/core/builtin.predicates';
+import { parseCidr, cidrContains } from '../../src/utils/cidr';
+import { EnrichedContext, RBACConfig } from '../../src/types';
+
+const { owner, sameOrganization, ipInCidr, timeWindow, httpMethod, metadataEquals } = BUILTIN_PREDICATES;
+const check = (predicate: typeof owner, ctx: EnrichedContext, args: Record<string, unknown> = {}) =>
+  predicate.evaluate(ctx, args);
+
+describe('Built-in predicates', () => {
+  it('owner compares the resource owner field with the user', () => {
+    expect(check(owner, { userId: 'u1', resource: { ownerId: 'u1' } }, { field: 'ownerId' })).toBe(true);
+    expect(check(owner, { userId: 'u1', resource: { authorId: 'u1' } }, { field: 'authorId' })).toBe(true);
+    expect(check(owner, { userId: 'u1', resource: { ownerId: 'u2' } }, { field: 'ownerId' })).toBe(false);
+    expect(check(owner, { resource: { ownerId: undefined } }, { field: 'ownerId' })).toBe(false);
+    expect(check(owner, { userId: 'u1', resource: 'u1' }, { field: 'ownerId' })).toBe(false);
+    expect(check(owner, { userId: 'toString', resource: {} }, { field: 'toString' })).toBe(false);
+  });
+
+  it('sameOrganization requires a matching, non-empty organization', () => {
+    const field = { field: 'organizationId' };
+    expect(check(sameOrganization, { organizationId: 'acme', resource: { organizationId: 'acme' } }, field)).toBe(true);
+    expect(check(sameOrganization, { organizationId: 'acme', resource: { organizationId: 'globex' } }, field)).toBe(false);
+    expect(check(sameOrganization, { resource: { organizationId: undefined } }, field)).toBe(false);
+  });
+
+  it('ipInCidr matches IPv4, IPv6 and IPv4-mapped addresses', () => {
+    const args = { cidrs: ['10.0.0.0/8', '192.168.1.7', '2001:db8::/32'] };
+    expect(check(ipInCidr, { ip: '10.255.0.1' }, args)).toBe(true);
+    expect(check(ipInCidr, { ip: '11.0.0.1' }, args)).toBe(false);
+    expect(check(ipInCidr, { ip: '192.168.1.7' }, args)).toBe(true);
+    expect(check(ipInCidr, { ip: '192.168.1.8' }, args)).toBe(false);
+    expect(check(ipInCidr, { ip: '2001:db8:abcd::1' }, args)).toBe(true);
+    expect(check(ipInCidr, { ip: '2001:db9::1' }, args)).toBe(false);
+    expect(check(ipInCidr, { ip: '::ffff:10.1.2.3' }, args)).toBe(true);
+    expect(check(ipInCidr, { ip: 'not-an-ip' }, args)).toBe(false);
+    expect(check(ipInCidr, {}, args)).toBe(false);
+  });
+
+  it('parses CIDR edge cases', () => {
+    expect(parseCidr('0.0.0.0/0')).toBeDefined();
+    expect(cidrContains(parseCidr('0.0.0.0/0')!, '8.8.8.8')).toBe(true);
+    expect(cidrContains(parseCidr('::/0')!, '8.8.8.8')).toBe(false);
+    expect(parseCidr('10.0.0.0/33')).toBeUndefined();
+    expect(parseCidr('256.0.0.1')).toBeUndefined();
+    expect(parseCidr('1::2::3')).toBeUndefined();
+    expect(parseCidr('10.0.0.0/')).toBeUndefined();
+  });
+
+  it('timeWindow honors time zones', () => {
+    // 08:30 UTC is 09:30 in Berlin (CET) and 03:30 in New York (EST)
+    const ctx = { timestamp: new Date('2024-01-15T08:30:00Z') };
+    expect(check(timeWindow, ctx, { from: 9, to: 17, tz: 'UTC' })).toBe(false);
+    expect(check(timeWindow, ctx, { from: 9, to: 17, tz: 'Europe/Berlin' })).toBe(true);
+    expect(check(timeWindow, ctx, { from: 9, to: 17, tz: 'America/New_York' })).toBe(false);
+    expect(check(timeWindow, ctx, { from: 9.5, to: 17, tz: 'Europe/Berlin' })).toBe(true);
+    expect(check(timeWindow, ctx, { from: 9.75, to: 17, tz: 'Europe/Berlin' })).toBe(false);
+  });
+
+  it('timeWindow wraps past midnight and filters days', () => {
+    const lateMonday = { timestamp: new Date('2024-01-15T23:00:00Z') };
+    const earlyTuesday = { timestamp: new Date('2024-01-16T02:00:00Z') };
+    const noon = { timestamp: new Date('2024-01-16T12:00:00Z') };
+    const night = { from: 22, to: 6, tz: 'UTC' };
+
+    expect(check(timeWindow, lateMonday, night)).toBe(true);
+    expect(check(timeWindow, earlyTuesday, night)).toBe(true);
+    expect(check(timeWindow, noon, night)).toBe(false);
+    expect(check(timeWindow, noon, { from: 9, to: 9, tz: 'UTC' })).toBe(false);
+    expect(check(timeWindow, noon, { from: 0, to: 24, tz: 'UTC', days: ['tue'] })).toBe(true);
+    expect(check(timeWindow, noon, { from: 0, to: 24, tz: 'UTC', days: ['sat', 'sun'] })).toBe(false);
+  });
+
+  it('httpMethod compares case-insensitively', () => {
+    expect(check(httpMethod, { method: 'get' }, { methods: ['GET', 'HEAD'] })).toBe(true);
+    expect(check(httpMethod, { method: 'POST' }, { methods: ['GET', 'HEAD'] })).toBe(false);
+    expect(check(httpMethod, {}, { methods: ['GET'] })).toBe(false);
+  });
+
+  it('metadataEquals reads nested keys with strict equality', () => {
+    const ctx = { metadata: { plan: 'pro', seats: 5, billing: { verified: true } } };
+    expect(check(metadataEquals, ctx, { key: 'plan', value: 'pro' })).toBe(true);
+    expect(check(metadataEquals, ctx, { key: 'seats', value: '5' })).toBe(false);
+    expect(check(metadataEquals, ctx, { key: 'billing.verified', value: true })).toBe(true);
+    expect(check(metadataEquals, ctx, { key: 'billing.missing.deep', value: true })).toBe(false);
+    expect(check(metadataEquals, {}, { key: 'plan', value: 'pro' })).toBe(false);
+  });
+
+  describe('registered on a service', () => {
+    const roleWith = (when: unknown): RBACConfig => ({
+      modules: { admin: ['settings'] },
+      roles: { ops: { id: 'ops', name: 'Ops', permissions: [{ permission: 'admin:read', when } as never] } }
+    });
+    const options = { predicates: { ...BUILTIN_PREDICATES } };
+
+    it('applies argument defaults', () => {
+      const rbac = new PermissionService(roleWith(['owner', { name: 'timeWindow', args: { from: 0, to: 24 } }]), options);
+      expect(rbac.hasPermission(['ops'], 'admin:read', { userId: 'u1', resource: { ownerId: 'u1' } })).toBe(true);
+    });
+
+    it('rejects invalid arguments at construction', () => {
+      expect(() => new PermissionService(roleWith({ name: 'ipInCidr', args: { cidrs: ['10.0.0.0/40'] } }), options))
+        .toThrow(/argument 'cidrs' contains invalid CIDR '10.0.0.0\/40'/);
+      expect(() => new PermissionService(roleWith({ name: 'timeWindow', args: { from: 9, to: 17, tz: 'Mars/Olympus' } }), options))
+        .toThrow(/argument 'tz' is not a known time zone/);
+      expect(() => new PermissionService(roleWith({ name: 'timeWindow', args: { from: 9, to: 17, days: ['funday'] } }), options))
+        .toThrow(/argument 'days' must be one of/);
+      expect(() => new PermissionService(roleWith({ name: 'metadataEquals', args: { key: 'plan', value: { x: 1 } } }), options))
+        .toThrow(/argument 'value' must be a string, number or boolean/);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for CompiledGraph (interned bitset closure)
+ */
+
+import { CompiledGraph } from '../../src/core/compiled.graph';
+
+describe('CompiledGraph', () => {
+  const direct = new Map<string, Set<string>>([
+    ['a', new Set(['b'])],
+    ['b', new Set(['c', 'd'])],
+    ['e', new Set(['a'])]
+  ]);
+  const graph = CompiledGraph.fromDirectGraph(['a', 'b', 'c', 'd', 'e', 'lonely'], direct);
+  const id = (name: string) => graph.idOf(name)!;
+
+  it('interns every node once', () => {
+    expect(graph.size).toBe(6);
+    expect(graph.nameOf(id('lonely'))).toBe('lonely');
+    expect(graph.idOf('missing')).toBeUndefined();
+  });
+
+  it('answers transitive lookups by ID', () => {
+    expect(graph.grants(id('e'), id('d'))).toBe(true);
+    expect(graph.grants(id('a'), id('c'))).toBe(true);
+    expect(graph.grants(id('c'), id('a'))).toBe(false);
+    expect(graph.grants(id('a'), id('a'))).toBe(false);
+  });
+
+  it('materializes rows and columns as names', () => {
+    expect(graph.granted('e')).toEqual(new Set(['a', 'b', 'c', 'd']));
+    expect(graph.grantors('c')).toEqual(new Set(['a', 'b', 'e']));
+    expect(graph.granted('lonely').size).toBe(0);
+  });
+
+  it('unions rows without duplicating entries', () => {
+    expect(graph.collect([id('b'), id('a'), id('lonely')])).toEqual(new Set(['a', 'b', 'c', 'd', 'lonely']));
+  });
+
+  it('counts closure edges', () => {
+    expect(graph.rowSize(id('e'))).toBe(4);
+    expect(graph.edgeCount()).toBe(4 + 3 + 2);
+  });
+
+  it('recomputes only rows affected by an update', () => {
+    const next = new Map(direct);
+    next.set('d', new Set(['f']));
+    const updated = graph.update(['a', 'b', 'c', 'd', 'e', 'lonely', 'f'], next);
+
+    expect(updated.granted('e')).toEqual(new Set(['a', 'b', 'c', 'd', 'f']));
+    expect(updated.idOf('a')).toBe(graph.idOf('a'));
+    expect(updated.idOf('f')).toBe(graph.size);
+    // 'c' does not reach 'd', so its row is shared with the previous graph
+    expect(updated['rows'][id('c')]).toBe(graph['rows'][id('c')]);
+    expect(updated['rows'][id('b')]).not.toBe(graph['rows'][id('b')]);
+    // the previous graph is left untouched
+    expect(graph.granted('e')).toEqual(new Set(['a', 'b', 'c', 'd']));
+  });
+
+  it('retires nodes an update no longer references', () => {
+    const next = new Map(direct);
+    next.delete('e');
+    const updated = graph.update(['a', 'b', 'c', 'd'], next);
+
+    expect(updated.idOf('e')).toBeUndefined();
+    expect(updated.idOf('lonely')).toBeUndefined();
+    expect(updated.granted('e').size).toBe(0);
+    expect(updated.grantors('a')).toEqual(new Set());
+    expect(updated.serialize().nodes).toEqual(['a', 'b', 'c', 'd', null, null]);
+    expect(CompiledGraph.deserialize(updated.serialize()).idOf('e')).toBeUndefined();
+
+    // a returning node gets its old ID back
+    const restored = updated.update(['a', 'b', 'c', 'd', 'e'], direct);
+    expect(restored.idOf('e')).toBe(id('e'));
+    expect(restored.granted('e')).toEqual(new Set(['a', 'b', 'c', 'd']));
+    // unless the graph went through a snapshot, which keeps no retired names
+    const reloaded = CompiledGraph.deserialize(updated.serialize()).update(['a', 'b', 'c', 'd', 'e'], direct);
+    expect(reloaded.idOf('e')).toBe(graph.size);
+    expect(reloaded.granted('e')).toEqual(new Set(['a', 'b', 'c', 'd']));
+  });
+
+  it('closes only the given nodes', () => {
+    const open = CompiledGraph.fromDirectGraph(['a', 'b', 'c', 'd', 'e'], new Map([...direct, ['x', new Set(['e', 'b'])]]));
+    expect(open.granted('x')).toEqual(new Set(['b', 'e']));
+    expect(open.granted('e')).toEqual(new Set(['a', 'b', 'c', 'd']));
+    expect(open.grantors('c')).toEqual(new Set(['a', 'b', 'e']));
+
+    const updated = open.update(['a', 'b', 'c', 'd', 'e'], new Map([...direct, ['x', new Set(['a'])]]));
+    expect(updated.granted('x')).toEqual(new Set(['a']));
+  });
+
+  it('handles IDs across many bitset words', () => {
+    const chain = new Map<string, Set<string>>();
+    for (let i = 0; i < 99; i++) chain.set(`n${i}`, new Set([`n${i + 1}`]));
+    const long = CompiledGraph.fromDirectGraph(Array.from({ length: 100 }, (_, i) => `n${i}`), chain);
+
+    expect(long.rowSize(long.idOf('n0')!)).toBe(99);
+    expect(long.grants(long.idOf('n0')!, long.idOf('n99')!)).toBe(true);
+    expect(long.grantorsOfAny([long.idOf('n64')!]).length).toBe(64);
+  });
+});
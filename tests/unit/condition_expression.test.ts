@@ -0,0 +1,136 @@
+/**
+ * Declarative condition expression tests.
+ * Covers: operators, context roots, cidr/date functions, mixing with named
+ * predicates, construction-time type checking and snapshots.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { compileExpression } from '../../src/core/condition.expression';
+import { RBACConfig, EnrichedContext } from '../../src/types';
+
+const modules = { posts: ['content'] };
+
+describe('Condition expressions', () => {
+  it('compares resource fields with the user', () => {
+    const isOwner = compileExpression('resource.ownerId == user.id');
+    expect(isOwner({ userId: 'u1', resource: { ownerId: 'u1' } })).toBe(true);
+    expect(isOwner({ userId: 'u1', resource: { ownerId: 'u2' } })).toBe(false);
+    expect(isOwner({ userId: 'u1' })).toBe(false);
+  });
+
+  it('fails closed when a compared field is missing', () => {
+    const isOwner = compileExpression('resource.ownerId == user.id');
+    expect(isOwner({ resource: {} })).toBe(false);
+    expect(isOwner({})).toBe(false);
+    expect(compileExpression('resource.ownerId != user.id')({ resource: {} })).toBe(false);
+    expect(compileExpression('context.method in [resource.method]')({ resource: {} })).toBe(false);
+
+    const unowned = compileExpression('resource.ownerId == null');
+    expect(unowned({ resource: {} })).toBe(true);
+    expect(unowned({ resource: { ownerId: 'u1' } })).toBe(false);
+    expect(compileExpression('resource.ownerId != null')({ resource: {} })).toBe(false);
+  });
+
+  it('keeps a comparison with a missing field unknown through !, && and ||', () => {
+    const notOwner = compileExpression('!(resource.ownerId == user.id)');
+    expect(notOwner({ userId: 'u1', resource: {} })).toBe(false);
+    expect(notOwner({ userId: 'u1', resource: { ownerId: 'u2' } })).toBe(true);
+    expect(compileExpression('!(resource.views < 10)')({ resource: {} })).toBe(false);
+    expect(compileExpression('!(context.method in [resource.method])')({ resource: {} })).toBe(false);
+
+    // false && unknown is false and true || unknown is true, so negating those is decided
+    expect(compileExpression('!(false && resource.ownerId == user.id)')({ resource: {} })).toBe(true);
+    expect(compileExpression('!(true || resource.ownerId == user.id)')({ resource: {} })).toBe(false);
+    expect(compileExpression('!(true && resource.ownerId == user.id)')({ resource: {} })).toBe(false);
+    expect(compileExpression('!(false || resource.ownerId == user.id)')({ resource: {} })).toBe(false);
+  });
+
+  it('supports boolean operators, lists and ordering', () => {
+    const expr = compileExpression('!(resource.archived == true) && (context.method in ["GET", "HEAD"] || resource.views < 10)');
+    expect(expr({ method: 'GET', resource: { archived: false } })).toBe(true);
+    expect(expr({ method: 'POST', resource: { archived: false, views: 3 } })).toBe(true);
+    expect(expr({ method: 'POST', resource: { views: 30 } })).toBe(false);
+    expect(expr({ method: 'GET', resource: { archived: true } })).toBe(false);
+    expect(expr({ method: 'GET', resource: {} })).toBe(false);
+  });
+
+  it('matches IPv4 ranges and dates', () => {
+    const internal = compileExpression('context.ip in cidr("10.0.0.0/8")');
+    expect(internal({ ip: '10.1.2.3' })).toBe(true);
+    expect(internal({ ip: '192.168.0.1' })).toBe(false);
+    expect(internal({})).toBe(false);
+
+    const beforeCutoff = compileExpression('now() < date("2030-01-01T00:00:00Z")');
+    expect(beforeCutoff({ timestamp: new Date('2029-06-01T00:00:00Z') })).toBe(true);
+    expect(beforeCutoff({ timestamp: new Date('2031-06-01T00:00:00Z') })).toBe(false);
+  });
+
+  it('reads open metadata objects', () => {
+    const expr = compileExpression("context.metadata.plan == 'pro'");
+    expect(expr({ metadata: { plan: 'pro' } })).toBe(true);
+    expect(expr({ metadata: {} })).toBe(false);
+  });
+
+  it('rejects malformed or ill-typed expressions with a position', () => {
+    expect(() => compileExpression('resource.ownerId ==')).toThrow(/at position 19/);
+    expect(() => compileExpression('context.ipAddress == "x"')).toThrow(/unknown field 'context.ipAddress'/);
+    expect(() => compileExpression('user.name == "x"')).toThrow(/unknown field 'user.name'/);
+    expect(() => compileExpression('context.ip in "10.0.0.0"')).toThrow(/'in' needs a list or cidr/);
+    expect(() => compileExpression('context.timestamp == "today"')).toThrow(/cannot compare date with string/);
+    expect(() => compileExpression('context.ip')).toThrow(/must evaluate to a boolean/);
+    expect(() => compileExpression('cidr("10.0.0.0/33")')).toThrow(/invalid CIDR/);
+    expect(() => compileExpression('exec("rm")')).toThrow(/unknown function 'exec'/);
+  });
+
+  describe('in role conditions', () => {
+    const config: RBACConfig = {
+      modules,
+      roles: {
+        author: {
+          id: 'author',
+          name: 'Author',
+          permissions: [
+            { permission: 'posts.content:update', when: { expr: 'resource.ownerId == user.id' } },
+            { permission: 'posts.content:delete', when: ['isWeekday', { expr: 'context.ip in cidr("10.0.0.0/8")' }] }
+          ]
+        }
+      }
+    };
+    const rbac = new PermissionService(config, { predicates: { isWeekday: () => true } });
+    const ctx: EnrichedContext = { userId: 'u1', ip: '10.0.0.5', resource: { ownerId: 'u1' } };
+
+    it('grants when the expression holds', () => {
+      expect(rbac.hasPermission(['author'], 'posts.content:update', ctx)).toBe(true);
+      expect(rbac.hasPermission(['author'], 'posts.content:update', { ...ctx, userId: 'u2', ip: '8.8.8.8' })).toBe(false);
+    });
+
+    it('denies an anonymous caller on an ownerless resource', () => {
+      expect(rbac.hasPermission(['author'], 'posts.content:update', { resource: { title: 'Draft' } })).toBe(false);
+    });
+
+    it('combines with named predicates and reports the expression source', () => {
+      expect(rbac.hasPermission(['author'], 'posts.content:delete', ctx)).toBe(true);
+      const result = rbac.checkPermissionDetailed(['author'], 'posts.content:delete', { ...ctx, ip: '8.8.8.8' });
+      expect(result.allowed).toBe(false);
+      expect(result.evaluatedPredicates).toContainEqual({ name: 'context.ip in cidr("10.0.0.0/8")', passed: false });
+    });
+
+    it('evaluates expressions in async checks', async () => {
+      await expect(rbac.hasPermissionAsync(['author'], 'posts.content:update', ctx)).resolves.toBe(true);
+    });
+
+    it('survives a snapshot round trip', () => {
+      const restored = PermissionService.fromSnapshot(config, rbac.compile(), { predicates: { isWeekday: () => true } });
+      expect(restored.hasPermission(['author'], 'posts.content:update', ctx)).toBe(true);
+    });
+
+    it('rejects invalid expressions at construction', () => {
+      expect(() => new PermissionService({
+        modules,
+        roles: {
+          bad: { id: 'bad', name: 'Bad', permissions: [{ permission: 'posts:read', when: { expr: 'context.foo == 1' } }] }
+        }
+      })).toThrow(/Role 'bad' has an invalid condition on permission 'posts:read'/);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Boolean condition tree tests.
+ * Covers: anyOf/allOf/not semantics, nesting with expressions, short-circuit
+ * reporting, async evaluation and validation of malformed trees.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { RBACConfig, EnrichedContext } from '../../src/types';
+
+const modules = { posts: ['content'] };
+
+const calls: string[] = [];
+const track = (name: string, fn: (ctx: EnrichedContext) => boolean) => (ctx: EnrichedContext) => {
+  calls.push(name);
+  return fn(ctx);
+};
+
+const predicates = {
+  isOwner: track('isOwner', ctx => !!ctx.userId && (ctx.resource as { ownerId?: string })?.ownerId === ctx.userId),
+  isTeamLead: track('isTeamLead', ctx => ctx.metadata?.role === 'lead'),
+  isArchived: track('isArchived', ctx => (ctx.resource as { archived?: boolean })?.archived === true)
+};
+
+// "owner OR same-team lead, AND NOT archived"
+const config: RBACConfig = {
+  modules,
+  roles: {
+    editor: {
+      id: 'editor',
+      name: 'Editor',
+      permissions: [
+        {
+          permission: 'posts.content:update',
+          when: { allOf: [{ anyOf: ['isOwner', 'isTeamLead'] }, { not: 'isArchived' }] }
+        },
+        {
+          permission: 'posts.content:create',
+          when: { anyOf: [{ expr: 'context.method == "POST"' }, 'isTeamLead'] }
+        }
+      ]
+    }
+  }
+};
+
+const rbac = new PermissionService(config, { predicates });
+
+describe('Condition trees', () => {
+  beforeEach(() => {
+    calls.length = 0;
+  });
+
+  it('evaluates anyOf, allOf and not', () => {
+    const owner: EnrichedContext = { userId: 'u1', resource: { ownerId: 'u1' } };
+    const lead: EnrichedContext = { userId: 'u2', resource: { ownerId: 'u1' }, metadata: { role: 'lead' } };
+    const stranger: EnrichedContext = { userId: 'u3', resource: { ownerId: 'u1' } };
+    const archived: EnrichedContext = { userId: 'u1', resource: { ownerId: 'u1', archived: true } };
+
+    expect(rbac.hasPermission(['editor'], 'posts.content:update', owner)).toBe(true);
+    expect(rbac.hasPermission(['editor'], 'posts.content:update', lead)).toBe(true);
+    expect(rbac.hasPermission(['editor'], 'posts.content:update', stranger)).toBe(false);
+    expect(rbac.hasPermission(['editor'], 'posts.content:update', archived)).toBe(false);
+  });
+
+  it('mixes expressions into trees', () => {
+    expect(rbac.hasPermission(['editor'], 'posts.content:create', { method: 'POST' })).toBe(true);
+    expect(rbac.hasPermission(['editor'], 'posts.content:create', { method: 'GET' })).toBe(false);
+  });
+
+  it('short-circuits and reports the evaluated tree', () => {
+    const result = rbac.checkPermissionDetailed(['editor'], 'posts.content:update', {
+      userId: 'u1',
+      resource: { ownerId: 'u1' }
+    });
+
+    expect(calls).toEqual(['isOwner', 'isArchived']);
+    expect(result.matchedVia?.predicates).toEqual([
+      { name: 'isOwner', passed: true },
+      { name: 'isArchived', passed: false }
+    ]);
+    expect(result.matchedVia?.conditions).toEqual({
+      kind: 'allOf',
+      passed: true,
+      children: [
+        {
+          kind: 'anyOf',
+          passed: true,
+          children: [
+            { kind: 'predicate', name: 'isOwner', passed: true },
+            { kind: 'predicate', name: 'isTeamLead', passed: false, skipped: true }
+          ]
+        },
+        { kind: 'not', passed: true, children: [{ kind: 'predicate', name: 'isArchived', passed: false }] }
+      ]
+    });
+  });
+
+  it('evaluates trees in async checks', async () => {
+    const rbacAsync = new PermissionService(config, {
+      predicates: {
+        isOwner: async () => false,
+        isTeamLead: async () => true,
+        isArchived: async () => false
+      }
+    });
+    await expect(rbacAsync.hasPermissionAsync(['editor'], 'posts.content:update', { userId: 'u1' })).resolves.toBe(true);
+
+    const archivedAsync = new PermissionService(config, {
+      predicates: { isOwner: async () => true, isTeamLead: async () => false, isArchived: async () => true }
+    });
+    await expect(archivedAsync.hasPermissionAsync(['editor'], 'posts.content:update', { userId: 'u1' })).resolves.toBe(false);
+  });
+
+  it('rejects empty or unknown nested conditions', () => {
+    const build = (when: unknown) => () => new PermissionService(
+      { modules, roles: { r: { id: 'r', name: 'R', permissions: [{ permission: 'posts:read', when } as never] } } },
+      { predicates }
+    );
+
+    expect(build({ anyOf: [] })).toThrow(/anyOf\/allOf need at least one condition/);
+    expect(build({ not: { allOf: ['isOwner', 'missing'] } })).toThrow(/unknown predicate 'missing'/);
+  });
+});
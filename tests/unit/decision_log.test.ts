@@ -0,0 +1,173 @@
+/**
+ * Decision log tests.
+ * Covers: records from every public check, failed predicates, denies, delegations,
+ * config versions, sampling, resource redaction, unsubscribing and the built-in sinks.
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PermissionService } from '../../src/core/permission.service';
+import { ConsoleDecisionSink, JsonLinesDecisionSink, RingBufferDecisionSink } from '../../src/core/decision.log';
+import { DecisionRecord, RBACConfig } from '../../src/types';
+
+const config: RBACConfig = {
+  modules: { posts: ['content'] },
+  roles: {
+    viewer: { id: 'viewer', name: 'Viewer', permissions: ['posts:read'] },
+    author: {
+      id: 'author',
+      name: 'Author',
+      permissions: [{ permission: 'posts.content:update', when: 'isOwner' }, { deny: 'posts:delete' }]
+    }
+  }
+};
+
+const predicates = { isOwner: (ctx: { resource?: unknown; userId?: string }) => (ctx.resource as { ownerId?: string })?.ownerId === ctx.userId };
+
+describe('Decision log', () => {
+  const build = (decisionLog = {}) => {
+    const records: DecisionRecord[] = [];
+    const rbac = new PermissionService(config, { predicates, decisionLog });
+    rbac.onDecision(record => records.push(record));
+    return { rbac, records };
+  };
+
+  it('records decisions from every public check', async () => {
+    const { rbac, records } = build();
+    rbac.hasPermission(['viewer'], 'posts:read', { userId: 'alice' });
+    rbac.can.readPosts(['viewer']);
+    rbac.checkPermissionDetailed(['viewer'], 'posts:update');
+    await rbac.hasPermissionAsync(['viewer'], 'posts:read');
+    await rbac.checkPermissionDetailedAsync(['viewer'], 'posts:read');
+    rbac.saveSubject({ id: 'bob', type: 'user', roles: ['viewer'] });
+    rbac.check('bob', 'posts:read');
+    rbac.checkDetailed('bob', 'posts:read');
+
+    expect(records.map(record => [record.permission, record.allowed])).toEqual([
+      ['posts:read', true],
+      ['posts:read', true],
+      ['posts:update', false],
+      ['posts:read', true],
+      ['posts:read', true],
+      ['posts:read', true],
+      ['posts:read', true]
+    ]);
+    expect(records[0]).toMatchObject({
+      subject: 'alice',
+      matchedVia: { userPermission: 'role:viewer', path: 'unconditional' },
+      failedPredicates: [],
+      configVersion: rbac.getConfigVersion()
+    });
+    expect(records[0].latencyMs).toBeGreaterThanOrEqual(0);
+    expect(records[5].subject).toBe('bob');
+  });
+
+  it('records failed predicates and denies', () => {
+    const { rbac, records } = build();
+    rbac.hasPermission(['author'], 'posts.content:update', { userId: 'alice', resource: { ownerId: 'bob' } });
+    rbac.hasPermission(['author'], 'posts:delete');
+
+    expect(records[0]).toMatchObject({ allowed: false, failedPredicates: ['isOwner'] });
+    expect(records[1].deniedBy).toMatchObject({ role: 'role:author', deny: 'posts:delete' });
+  });
+
+  it('records the actor and principal of delegated checks', () => {
+    const { rbac, records } = build();
+    const delegation = rbac.delegate({ principal: 'alice', permissions: ['viewer'], actor: 'bot', scope: ['posts:read'] });
+    rbac.hasPermission(delegation, 'posts:read');
+    expect(records[0]).toMatchObject({ allowed: true, actor: 'bot', principal: 'alice' });
+  });
+
+  it('changes the config version with the config', () => {
+    const { rbac, records } = build();
+    const before = rbac.getConfigVersion();
+    rbac.addRole({ id: 'editor', name: 'Editor', permissions: ['posts:update'] });
+    rbac.hasPermission(['editor'], 'posts:update');
+    expect(records[0].configVersion).not.toBe(before);
+    expect(records[0].configVersion).toBe(rbac.getConfigVersion());
+  });
+
+  it('samples decisions', () => {
+    const random = jest.spyOn(Math, 'random');
+    try {
+      const { rbac, records } = build({ sampleRate: 0.25 });
+      random.mockReturnValueOnce(0.1).mockReturnValueOnce(0.9);
+      rbac.hasPermission(['viewer'], 'posts:read');
+      rbac.hasPermission(['viewer'], 'posts:update');
+      expect(records.map(record => record.permission)).toEqual(['posts:read']);
+    } finally {
+      random.mockRestore();
+    }
+    expect(() => build({ sampleRate: 2 })).toThrow('Invalid decision log sampleRate 2. Use a number from 0 to 1.');
+  });
+
+  it('redacts the resource', () => {
+    const context = { userId: 'alice', resource: { ownerId: 'alice', body: 'secret' } };
+
+    const redacted = build();
+    redacted.rbac.hasPermission(['author'], 'posts.content:update', context);
+    expect(redacted.records[0].context).toEqual({ userId: 'alice', resource: '[redacted]' });
+    expect(context.resource.body).toBe('secret');
+
+    const mapped = build({ redactResource: (resource: unknown) => ({ ownerId: (resource as { ownerId: string }).ownerId }) });
+    mapped.rbac.hasPermission(['author'], 'posts.content:update', context);
+    expect(mapped.records[0].context?.resource).toEqual({ ownerId: 'alice' });
+
+    const kept = build({ redactResource: false });
+    kept.rbac.hasPermission(['author'], 'posts.content:update', context);
+    expect(kept.records[0].context?.resource).toBe(context.resource);
+  });
+
+  it('unsubscribes', () => {
+    const rbac = new PermissionService(config, { predicates });
+    const records: DecisionRecord[] = [];
+    const unsubscribe = rbac.onDecision(record => records.push(record));
+    rbac.hasPermission(['viewer'], 'posts:read');
+    unsubscribe();
+    rbac.hasPermission(['viewer'], 'posts:read');
+    expect(records).toHaveLength(1);
+  });
+});
+
+describe('Decision sinks', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'authz-decisions-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the last records in a ring buffer', () => {
+    const buffer = new RingBufferDecisionSink(2);
+    const rbac = new PermissionService(config, { predicates, decisionLog: { sinks: [buffer] } });
+    rbac.hasPermission(['viewer'], 'posts:read');
+    rbac.hasPermission(['viewer'], 'posts:update');
+    rbac.hasPermission(['viewer'], 'posts:delete');
+
+    expect(buffer.records().map(record => record.permission)).toEqual(['posts:update', 'posts:delete']);
+    buffer.clear();
+    expect(buffer.records()).toEqual([]);
+    expect(() => new RingBufferDecisionSink(0)).toThrow('Invalid ring buffer capacity 0. Use a positive integer.');
+  });
+
+  it('appends JSON lines to a file', () => {
+    const path = join(dir, 'decisions.jsonl');
+    const rbac = new PermissionService(config, { predicates, decisionLog: { sinks: [new JsonLinesDecisionSink(path)] } });
+    rbac.hasPermission(['viewer'], 'posts:read');
+    rbac.hasPermission(['viewer'], 'posts:update');
+
+    const lines = readFileSync(path, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => [line.permission, line.allowed])).toEqual([['posts:read', true], ['posts:update', false]]);
+  });
+
+  it('writes JSON lines to the console', () => {
+    const lines: string[] = [];
+    const rbac = new PermissionService(config, { predicates, decisionLog: { sinks: [new ConsoleDecisionSink(line => lines.push(line))] } });
+    rbac.hasPermission(['viewer'], 'posts:read');
+    expect(JSON.parse(lines[0])).toMatchObject({ permission: 'posts:read', allowed: true });
+  });
+});
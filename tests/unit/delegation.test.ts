@@ -0,0 +1,141 @@
+/**
+ * Delegation tests.
+ * Covers: the derived permission set (intersection with the scope, patterns, roles,
+ * instances), checks through a delegation, expiry, principal denies, stored subjects,
+ * predicates running as the principal, explanations and validation.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { RBACConfig } from '../../src/types';
+
+const config: RBACConfig = {
+  modules: { posts: ['content', 'comments'], billing: ['invoices'] },
+  roles: {
+    viewer: { id: 'viewer', name: 'Viewer', permissions: ['posts:read'] },
+    editor: { id: 'editor', name: 'Editor', permissions: ['posts:update', 'billing:read'], inherits: ['viewer'] },
+    moderator: {
+      id: 'moderator',
+      name: 'Moderator',
+      permissions: ['posts:delete', { deny: 'posts.comments:delete' }]
+    }
+  }
+};
+
+describe('Delegation', () => {
+  const rbac = new PermissionService(config);
+
+  it('derives the intersection of the principal\'s permissions and the scope', () => {
+    const delegation = rbac.delegate({
+      principal: 'alice',
+      permissions: ['editor'],
+      actor: 'bot',
+      scope: ['posts.content:read', 'posts.comments:delete', 'billing.invoices:update']
+    });
+    expect(delegation.permissions.sort()).toEqual(['billing.invoices:read', 'posts.comments:update', 'posts.content:read']);
+
+    expect(rbac.hasPermission(delegation, 'posts.comments:read')).toBe(true);
+    expect(rbac.hasPermission(delegation, 'posts.content:update')).toBe(false);
+    expect(rbac.hasPermission(delegation, 'posts.comments:delete')).toBe(false);
+    expect(rbac.hasPermission(delegation, 'billing.invoices:read')).toBe(true);
+  });
+
+  it('expands patterns, roles and instance permissions in the scope', () => {
+    const delegate = (scope: string[]) =>
+      rbac.delegate({ principal: 'alice', permissions: ['editor'], actor: 'bot', scope }).permissions.sort();
+
+    expect(delegate(['posts.*:update'])).toEqual(['posts.comments:update', 'posts.content:update']);
+    expect(delegate(['viewer'])).toEqual(['role:viewer']);
+    expect(delegate(['posts.content:update#42', 'posts.content:delete#42'])).toEqual(['posts.content:update#42']);
+
+    const instance = rbac.delegate({ principal: 'alice', permissions: ['editor'], actor: 'bot', scope: ['posts.content:update#42'] });
+    expect(rbac.hasPermission(instance, 'posts.content:read#42')).toBe(true);
+    expect(rbac.hasPermission(instance, 'posts.content:update#7')).toBe(false);
+  });
+
+  it('expires', () => {
+    const delegation = rbac.delegate({
+      principal: 'alice',
+      permissions: ['viewer'],
+      actor: 'support',
+      scope: ['posts:read'],
+      expiresAt: '2026-05-01T00:00:00Z'
+    });
+    expect(delegation.expiresAt).toBe('2026-05-01T00:00:00.000Z');
+    expect(rbac.hasPermission(delegation, 'posts:read', { timestamp: new Date('2026-04-30T00:00:00Z') })).toBe(true);
+    expect(rbac.hasPermission(delegation, 'posts:read', { timestamp: new Date('2026-05-01T00:00:00Z') })).toBe(false);
+
+    const result = rbac.checkPermissionDetailed(delegation, 'posts:read', { timestamp: new Date('2026-06-01T00:00:00Z') });
+    expect(result.reason).toBe("Denied. The delegation from 'alice' to 'support' expired at 2026-05-01T00:00:00.000Z.");
+  });
+
+  it('keeps the principal\'s denies', () => {
+    const delegation = rbac.delegate({ principal: 'mod', permissions: ['moderator'], actor: 'bot', scope: ['posts:delete'] });
+    expect(delegation.permissions).toEqual(['posts:delete']);
+    expect(rbac.hasPermission(delegation, 'posts.content:delete')).toBe(true);
+    expect(rbac.hasPermission(delegation, 'posts.comments:delete')).toBe(false);
+  });
+
+  it('delegates for stored subjects, with the principal as the user', () => {
+    const author = { id: 'author', name: 'Author', permissions: [{ permission: 'posts.content:update', when: 'isOwner' }] };
+    const service = new PermissionService({ ...config, roles: { ...config.roles, author } }, {
+      predicates: { isOwner: ctx => (ctx.resource as { ownerId?: string })?.ownerId === ctx.userId }
+    });
+    service.saveSubject({ id: 'carol', type: 'user', roles: ['viewer', 'author'] });
+
+    const delegation = service.delegate({ principal: 'carol', actor: 'support-dave', scope: ['posts.content:read'] });
+    expect(delegation.principalPermissions).toEqual(['role:viewer', 'role:author']);
+    expect(delegation.permissions).toEqual(['posts.content:read']);
+    expect(service.hasPermission(delegation, 'posts.content:read', { resource: { ownerId: 'carol' } })).toBe(true);
+  });
+
+  it('runs predicates as the principal, whatever user the context names', async () => {
+    const author = { id: 'author', name: 'Author', permissions: ['posts.content:update'] };
+    const service = new PermissionService({ ...config, roles: { ...config.roles, author } }, {
+      predicates: { isOwner: ctx => (ctx.resource as { ownerId?: string })?.ownerId === ctx.userId }
+    });
+    const delegation = service.delegate({ principal: 'carol', permissions: ['author'], actor: 'dave', scope: ['posts.content:update'] });
+    // The grant becomes owner-only after the delegation was issued
+    service.updateConfig({
+      ...config,
+      roles: { ...config.roles, author: { ...author, permissions: [{ permission: 'posts.content:update', when: 'isOwner' }] } }
+    });
+
+    const carols = { userId: 'dave', subject: 'user:dave', resource: { ownerId: 'carol' } };
+    const daves = { userId: 'dave', subject: 'user:dave', resource: { ownerId: 'dave' } };
+    expect(service.hasPermission(delegation, 'posts.content:update', carols)).toBe(true);
+    expect(service.hasPermission(delegation, 'posts.content:update', daves)).toBe(false);
+    await expect(service.hasPermissionAsync(delegation, 'posts.content:update', carols)).resolves.toBe(true);
+    await expect(service.hasPermissionAsync(delegation, 'posts.content:update', daves)).resolves.toBe(false);
+  });
+
+  it('reports the actor and the principal', () => {
+    const delegation = rbac.delegate({ principal: 'alice', permissions: ['editor'], actor: 'bot', scope: ['posts:read'] });
+
+    const allowed = rbac.checkPermissionDetailed(delegation, 'posts.content:read');
+    expect(allowed).toMatchObject({ allowed: true, actor: 'bot', principal: 'alice', userPermissions: ['posts:read'] });
+    expect(allowed.reason).toBe("Granted via 'role:editor' (unconditional). Delegated by 'alice' to 'bot'.");
+
+    const denied = rbac.checkPermissionDetailed(delegation, 'posts:update');
+    expect(denied).toMatchObject({ allowed: false, actor: 'bot', principal: 'alice' });
+    expect(denied.reason).toBe("Denied. 'posts:update' is outside the permissions of the delegation from 'alice' to 'bot'.");
+  });
+
+  it('supports async checks', async () => {
+    const delegation = rbac.delegate({ principal: 'alice', permissions: ['viewer'], actor: 'bot', scope: ['posts:read'] });
+    await expect(rbac.hasPermissionAsync(delegation, 'posts:read')).resolves.toBe(true);
+    await expect(rbac.checkPermissionDetailedAsync(delegation, 'billing:read')).resolves.toMatchObject({ allowed: false, actor: 'bot' });
+  });
+
+  it('validates requests', () => {
+    expect(() => rbac.delegate({ principal: 'alice', permissions: [], actor: 'bot', scope: ['posts:publish'] }))
+      .toThrow("Invalid permission 'posts:publish' in delegation from 'alice' to 'bot'.");
+    expect(() => rbac.delegate({ principal: 'alice', permissions: [], actor: 'bot', scope: ['crm.*:read'] }))
+      .toThrow("Permission pattern 'crm.*:read' in delegation from 'alice' to 'bot' matches no configured permissions.");
+    expect(() => rbac.delegate({ principal: 'alice', permissions: [], actor: 'bot', scope: [], expiresAt: 'tomorrow' }))
+      .toThrow("Invalid expiresAt 'tomorrow' on delegation from 'alice' to 'bot'.");
+    expect(() => rbac.delegate({ principal: 'alice', permissions: [], actor: '', scope: [] }))
+      .toThrow('Delegations need a principal and an actor.');
+    expect(() => rbac.delegate({ principal: 'nobody', actor: 'bot', scope: ['posts:read'] }))
+      .toThrow("Unknown subject 'nobody'.");
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Explicit deny tests.
+ * Covers: deny-overrides, inheritance, CRUD hierarchy propagation,
+ * wildcard denies, conditional grants, validation and detailed explanations.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { RBACConfig, EnrichedContext } from '../../src/types';
+
+const modules = { posts: ['draft', 'published'], users: ['profile'] };
+
+describe('Explicit deny rules', () => {
+  const config: RBACConfig = {
+    modules,
+    roles: {
+      editor: {
+        id: 'editor',
+        name: 'Editor',
+        permissions: ['posts:delete', { deny: 'posts.published:delete' }]
+      },
+      senior: {
+        id: 'senior',
+        name: 'Senior Editor',
+        permissions: ['users:read'],
+        inherits: ['editor']
+      },
+      publisher: {
+        id: 'publisher',
+        name: 'Publisher',
+        permissions: ['posts.published:delete']
+      }
+    }
+  };
+  const rbac = new PermissionService(config);
+
+  it('blocks the denied permission while keeping the rest of the grant', () => {
+    expect(rbac.hasPermission(['editor'], 'posts.published:delete')).toBe(false);
+    expect(rbac.hasPermission(['editor'], 'posts.published:update')).toBe(true);
+    expect(rbac.hasPermission(['editor'], 'posts.draft:delete')).toBe(true);
+  });
+
+  it('blocks broader permissions that would imply the denied one', () => {
+    expect(rbac.hasPermission(['editor'], 'posts:delete')).toBe(false);
+    expect(rbac.hasPermission(['editor'], 'posts:*')).toBe(false);
+  });
+
+  it('is honored through role inheritance', () => {
+    expect(rbac.hasPermission(['senior'], 'posts.published:delete')).toBe(false);
+    expect(rbac.hasPermission(['senior'], 'users:read')).toBe(true);
+  });
+
+  it('overrides grants coming from other roles the user holds', () => {
+    expect(rbac.hasPermission(['publisher'], 'posts.published:delete')).toBe(true);
+    expect(rbac.hasPermission(['editor', 'publisher'], 'posts.published:delete')).toBe(false);
+    expect(rbac.hasPermission(['editor', 'posts.published:delete'], 'posts.published:delete')).toBe(false);
+  });
+
+  it('denies lower actions only when they are denied themselves', () => {
+    const rbacUpdate = new PermissionService({
+      modules,
+      roles: {
+        reviewer: {
+          id: 'reviewer',
+          name: 'Reviewer',
+          permissions: ['posts:*', { deny: 'posts:update' }]
+        }
+      }
+    });
+
+    expect(rbacUpdate.hasPermission(['reviewer'], 'posts.draft:update')).toBe(false);
+    expect(rbacUpdate.hasPermission(['reviewer'], 'posts.draft:delete')).toBe(false);
+    expect(rbacUpdate.hasPermission(['reviewer'], 'posts.draft:read')).toBe(true);
+    expect(rbacUpdate.hasPermission(['reviewer'], 'posts:create')).toBe(true);
+  });
+
+  it('treats a wildcard deny as covering every action in scope', () => {
+    const rbacWildcard = new PermissionService({
+      modules,
+      roles: {
+        auditor: {
+          id: 'auditor',
+          name: 'Auditor',
+          permissions: ['*:read', { deny: 'users:*' }]
+        }
+      }
+    });
+
+    expect(rbacWildcard.hasPermission(['auditor'], 'users.profile:read')).toBe(false);
+    expect(rbacWildcard.hasPermission(['auditor'], 'posts.draft:read')).toBe(true);
+  });
+
+  it('overrides conditional grants even when their predicates pass', () => {
+    const rbacCond = new PermissionService(
+      {
+        modules,
+        roles: {
+          author: {
+            id: 'author',
+            name: 'Author',
+            permissions: [{ permission: 'posts:update', when: 'always' }, { deny: 'posts.published:update' }]
+          }
+        }
+      },
+      { predicates: { always: () => true } }
+    );
+    const ctx: EnrichedContext = { userId: 'u1' };
+
+    expect(rbacCond.hasPermission(['author'], 'posts.draft:update', ctx)).toBe(true);
+    expect(rbacCond.hasPermission(['author'], 'posts.published:update', ctx)).toBe(false);
+  });
+
+  it('reports the blocking deny in checkPermissionDetailed', () => {
+    const result = rbac.checkPermissionDetailed(['senior'], 'posts.published:delete');
+    expect(result.allowed).toBe(false);
+    expect(result.deniedBy).toEqual({
+      userPermission: 'role:senior',
+      role: 'role:editor',
+      deny: 'posts.published:delete'
+    });
+    expect(result.reason).toMatch(/explicit deny 'posts.published:delete'/);
+  });
+
+  it('rejects denies on unknown permissions', () => {
+    expect(() => new PermissionService({
+      modules,
+      roles: { bad: { id: 'bad', name: 'Bad', permissions: [{ deny: 'posts:publish' }] } }
+    })).toThrow(/Invalid permission 'posts:publish'/);
+  });
+
+  it('rejects denies on role references', () => {
+    expect(() => new PermissionService({
+      modules,
+      roles: {
+        base: { id: 'base', name: 'Base', permissions: ['posts:read'] },
+        bad: { id: 'bad', name: 'Bad', permissions: [{ deny: 'role:base' }] }
+      }
+    })).toThrow(/cannot deny a role reference/);
+  });
+});
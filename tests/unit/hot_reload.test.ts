@@ -0,0 +1,148 @@
+/**
+ * Hot reload tests.
+ * Covers: addRole/removeRole/addModule/updateConfig, equivalence with a fresh build,
+ * validation failures leaving the live policy untouched, and `can` proxy identity.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { RBACConfig } from '../../src/types';
+
+const baseConfig: RBACConfig = {
+  modules: { posts: ['draft', 'published'], users: ['profile'] },
+  roles: {
+    viewer: { id: 'viewer', name: 'Viewer', permissions: ['*:read'] },
+    editor: { id: 'editor', name: 'Editor', permissions: ['posts:update'], inherits: ['viewer'] }
+  }
+};
+
+const expectSameClosure = (actual: PermissionService, expected: PermissionService) => {
+  expect(actual.getStats()).toEqual(expected.getStats());
+  expected.whatDoesPermissionGrant('*:delete').forEach(permission => {
+    expect(actual.whatDoesPermissionGrant(permission)).toEqual(expected.whatDoesPermissionGrant(permission));
+    expect(actual.whoGrantsPermission(permission)).toEqual(expected.whoGrantsPermission(permission));
+  });
+  Object.keys(expected.getConfig().roles ?? {}).forEach(roleId => {
+    expect(actual.whatDoesPermissionGrant(`role:${roleId}`)).toEqual(expected.whatDoesPermissionGrant(`role:${roleId}`));
+  });
+};
+
+describe('Hot reload', () => {
+  let rbac: PermissionService;
+
+  beforeEach(() => {
+    rbac = new PermissionService(baseConfig);
+  });
+
+  it('adds a role', () => {
+    rbac.addRole({ id: 'moderator', name: 'Moderator', permissions: ['users.profile:update'], inherits: ['editor'] });
+
+    expect(rbac.hasPermission(['moderator'], 'users.profile:update')).toBe(true);
+    expect(rbac.hasPermission(['moderator'], 'posts.draft:update')).toBe(true);
+    expect(rbac.hasPermission(['editor'], 'users.profile:update')).toBe(false);
+    expectSameClosure(rbac, new PermissionService(rbac.getConfig()));
+  });
+
+  it('rejects adding a role that already exists', () => {
+    expect(() => rbac.addRole({ id: 'viewer', name: 'Viewer', permissions: [] })).toThrow(/already exists/);
+  });
+
+  it('removes a role', () => {
+    rbac.addRole({ id: 'temp', name: 'Temp', permissions: ['users:delete'] });
+    rbac.removeRole('temp');
+
+    expect(rbac.hasPermission(['temp'], 'users:delete')).toBe(false);
+    expect(rbac.hasPermission(['role:temp'], 'users:delete')).toBe(false);
+    expect(rbac.getConfig().roles?.temp).toBeUndefined();
+    expectSameClosure(rbac, new PermissionService(baseConfig));
+  });
+
+  it('refuses to remove a role other roles inherit, keeping the current policy', () => {
+    expect(() => rbac.removeRole('viewer')).toThrow(/inherits from non-existent role 'viewer'/);
+    expect(rbac.hasPermission(['editor'], 'users:read')).toBe(true);
+    expect(rbac.getConfig()).toBe(baseConfig);
+  });
+
+  it('adds a module that existing wildcard grants cascade to', () => {
+    rbac.addModule('store', ['orders']);
+
+    expect(rbac.hasPermission(['viewer'], 'store.orders:read')).toBe(true);
+    expect(rbac.hasPermission(['editor'], 'store.orders:update')).toBe(false);
+    expect(rbac.can.readStoreOrders(['store:read'])).toBe(true);
+    expectSameClosure(rbac, new PermissionService(rbac.getConfig()));
+  });
+
+  it('applies arbitrary config changes through updateConfig', () => {
+    const next: RBACConfig = {
+      modules: { posts: ['draft'], comments: ['content'] },
+      roles: {
+        viewer: { id: 'viewer', name: 'Viewer', permissions: ['posts:read'] },
+        editor: { id: 'editor', name: 'Editor', permissions: ['comments:*', { deny: 'comments.content:delete' }], inherits: ['viewer'] }
+      }
+    };
+    rbac.updateConfig(next);
+
+    expect(rbac.hasPermission(['editor'], 'comments.content:update')).toBe(true);
+    expect(rbac.hasPermission(['editor'], 'comments.content:delete')).toBe(false);
+    expect(rbac.hasPermission(['editor'], 'posts:update')).toBe(false);
+    expect(rbac.hasPermission(['viewer'], 'users:read')).toBe(false);
+    expectSameClosure(rbac, new PermissionService(next));
+  });
+
+  it('rejects invalid changes with the construction-time validation', () => {
+    expect(() => rbac.addRole({ id: 'bad', name: 'Bad', permissions: ['posts:publish'] })).toThrow(/Invalid permission 'posts:publish'/);
+    expect(() => rbac.updateConfig({
+      modules: {},
+      roles: {
+        a: { id: 'a', name: 'A', permissions: [], inherits: ['b'] },
+        b: { id: 'b', name: 'B', permissions: [], inherits: ['a'] }
+      }
+    })).toThrow(/Circular dependency/);
+
+    expect(rbac.hasPermission(['editor'], 'posts:update')).toBe(true);
+    expect(rbac.getConfig()).toBe(baseConfig);
+  });
+
+  it('forgets removed roles and modules like a fresh build', () => {
+    rbac.addModule('blog', ['entries']);
+    rbac.addRole({ id: 'blogger', name: 'Blogger', permissions: ['blog:update'] });
+    rbac.updateConfig({ ...baseConfig, modules: { ...baseConfig.modules } });
+    const fresh = new PermissionService(baseConfig);
+    const constraint = { name: 'no-bloggers', kind: 'mutuallyExclusiveRoles' as const, roles: ['editor', 'blogger'] };
+    const scope = { principal: 'alice', permissions: ['viewer'], actor: 'bot', scope: ['blog:read'] };
+
+    expect(() => rbac.updateConfig({ ...baseConfig, constraints: [constraint] })).toThrow(
+      "Constraint 'no-bloggers' references unknown role 'blogger'"
+    );
+    expect(() => new PermissionService({ ...baseConfig, constraints: [constraint] })).toThrow(
+      "Constraint 'no-bloggers' references unknown role 'blogger'"
+    );
+    const unknownScope = "Invalid permission 'blog:read' in delegation from 'alice' to 'bot'.";
+    expect(() => fresh.delegate(scope)).toThrow(unknownScope);
+    expect(() => rbac.delegate(scope)).toThrow(unknownScope);
+    expect(rbac.getEffectivePermissions(['role:blogger'])).toEqual(fresh.getEffectivePermissions(['role:blogger']));
+    expect(rbac.whatDoesPermissionGrant('blog:update')).toEqual(fresh.whatDoesPermissionGrant('blog:update'));
+    expectSameClosure(rbac, fresh);
+
+    const loaded = PermissionService.fromSnapshot(rbac.getConfig(), rbac.compile());
+    expect(() => loaded.delegate(scope)).toThrow(unknownScope);
+    expect(loaded.getEffectivePermissions(['role:blogger'])).toEqual(fresh.getEffectivePermissions(['role:blogger']));
+  });
+
+  it('keeps the `can` proxy identity across reloads', () => {
+    const can = rbac.can;
+    expect(can.updatePosts(['editor'])).toBe(true);
+
+    rbac.updateConfig({ ...baseConfig, roles: { ...baseConfig.roles, editor: { id: 'editor', name: 'Editor', permissions: [] } } });
+
+    expect(rbac.can).toBe(can);
+    expect(can.updatePosts(['editor'])).toBe(false);
+  });
+
+  it('reloads a service that was loaded from a snapshot', () => {
+    const loaded = PermissionService.fromSnapshot(baseConfig, rbac.compile());
+    loaded.addModule('store', ['orders']);
+
+    expect(loaded.hasPermission(['viewer'], 'store.orders:read')).toBe(true);
+    expectSameClosure(loaded, new PermissionService(loaded.getConfig()));
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Instance-level permission tests.
+ * Covers: instance grants on roles, type-level grants implying instances,
+ * CRUD hierarchy per instance, denies, conditional instance grants,
+ * validation and snapshots.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { RBACConfig } from '../../src/types';
+
+const modules = { posts: ['content', 'comments'] };
+
+describe('Instance-level permissions', () => {
+  const config: RBACConfig = {
+    modules,
+    roles: {
+      author: { id: 'author', name: 'Author', permissions: ['posts.content:update#123'] },
+      coauthor: { id: 'coauthor', name: 'Co-author', permissions: [], inherits: ['author'] },
+      editor: { id: 'editor', name: 'Editor', permissions: ['posts:update'] },
+      restricted: {
+        id: 'restricted',
+        name: 'Restricted',
+        permissions: ['posts.content:update#123', { deny: 'posts.content:update' }]
+      }
+    }
+  };
+  const rbac = new PermissionService(config);
+
+  it('grants only the named instance', () => {
+    expect(rbac.hasPermission(['author'], 'posts.content:update#123')).toBe(true);
+    expect(rbac.hasPermission(['author'], 'posts.content:update#456')).toBe(false);
+    expect(rbac.hasPermission(['author'], 'posts.content:update')).toBe(false);
+  });
+
+  it('applies the action hierarchy within the instance', () => {
+    expect(rbac.hasPermission(['author'], 'posts.content:read#123')).toBe(true);
+    expect(rbac.hasPermission(['author'], 'posts.content:delete#123')).toBe(false);
+  });
+
+  it('is inherited by child roles', () => {
+    expect(rbac.hasPermission(['coauthor'], 'posts.content:read#123')).toBe(true);
+  });
+
+  it('lets type-level grants cover every instance', () => {
+    expect(rbac.hasPermission(['editor'], 'posts.content:update#123')).toBe(true);
+    expect(rbac.hasPermission(['editor'], 'posts.comments:read#9')).toBe(true);
+    expect(rbac.hasPermission(['posts.content:read'], 'posts.content:read#9')).toBe(true);
+  });
+
+  it('matches instance permissions held directly by the user', () => {
+    expect(rbac.hasPermission(['posts.content:update#123'], 'posts.content:read#123')).toBe(true);
+    expect(rbac.hasPermission(['posts.content:update#123'], 'posts.content:read#1234')).toBe(false);
+    expect(rbac.hasPermission(['posts.content:update#123'], 'posts.content:read')).toBe(false);
+  });
+
+  it('lets a deny on the base permission block every instance', () => {
+    expect(rbac.hasPermission(['restricted'], 'posts.content:update#123')).toBe(false);
+    expect(rbac.hasPermission(['restricted'], 'posts.content:read#123')).toBe(true);
+  });
+
+  it('explains instance grants in checkPermissionDetailed', () => {
+    const result = rbac.checkPermissionDetailed(['coauthor'], 'posts.content:read#123');
+    expect(result.allowed).toBe(true);
+    expect(result.matchedVia).toEqual({
+      userPermission: 'role:coauthor',
+      path: 'instance',
+      instancePermission: 'posts.content:update#123'
+    });
+  });
+
+  it('evaluates conditional instance grants only for that instance', () => {
+    const rbacCond = new PermissionService(
+      {
+        modules,
+        roles: {
+          reviewer: {
+            id: 'reviewer',
+            name: 'Reviewer',
+            permissions: [{ permission: 'posts.comments:update#7', when: 'isOwner' }]
+          }
+        }
+      },
+      { predicates: { isOwner: ctx => ctx.userId === 'u1' } }
+    );
+
+    expect(rbacCond.hasPermission(['reviewer'], 'posts.comments:read#7', { userId: 'u1' })).toBe(true);
+    expect(rbacCond.hasPermission(['reviewer'], 'posts.comments:read#7', { userId: 'u2' })).toBe(false);
+    expect(rbacCond.hasPermission(['reviewer'], 'posts.comments:read#8', { userId: 'u1' })).toBe(false);
+    expect(rbacCond.hasPermission(['reviewer'], 'posts.comments:read', { userId: 'u1' })).toBe(false);
+  });
+
+  it('survives a snapshot round trip', () => {
+    const restored = PermissionService.fromSnapshot(config, rbac.compile({ format: 'binary' }));
+    expect(restored.hasPermission(['coauthor'], 'posts.content:read#123')).toBe(true);
+    expect(restored.hasPermission(['coauthor'], 'posts.content:read#456')).toBe(false);
+  });
+
+  it('rejects instances of unknown permissions', () => {
+    expect(() => new PermissionService({
+      modules,
+      roles: { bad: { id: 'bad', name: 'Bad', permissions: ['posts.content:publish#1'] } }
+    })).toThrow(/Invalid permission 'posts.content:publish#1'/);
+  });
+
+  it('rejects instance denies and instance role references', () => {
+    expect(() => new PermissionService({
+      modules,
+      roles: { bad: { id: 'bad', name: 'Bad', permissions: [{ deny: 'posts.content:update#1' }] } }
+    })).toThrow(/cannot deny a single instance/);
+    expect(() => new PermissionService({
+      modules,
+      roles: {
+        base: { id: 'base', name: 'Base', permissions: [] },
+        bad: { id: 'bad', name: 'Bad', permissions: ['role:base#1'] }
+      }
+    })).toThrow(/cannot target an instance of a role reference/);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Metrics and tracing tests.
+ * Covers: check and predicate metrics (including errors and timeouts), checks that throw,
+ * the Prometheus text format, spans for sync and async checks, and uninstrumented services.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { PrometheusMetrics } from '../../src/core/prometheus.metrics';
+import { CheckTracer, MetricsCollector, RBACConfig } from '../../src/types';
+
+const config: RBACConfig = {
+  modules: { posts: ['content'] },
+  roles: {
+    viewer: { id: 'viewer', name: 'Viewer', permissions: ['posts:read'] },
+    author: { id: 'author', name: 'Author', permissions: [{ permission: 'posts.content:update', when: 'isOwner' }] },
+    flaky: { id: 'flaky', name: 'Flaky', permissions: [{ permission: 'posts:delete', when: 'broken' }] },
+    slow: { id: 'slow', name: 'Slow', permissions: [{ permission: 'posts:create', when: 'hangs' }] }
+  }
+};
+
+const predicates = {
+  isOwner: (ctx: { resource?: unknown; userId?: string }) => (ctx.resource as { ownerId?: string })?.ownerId === ctx.userId,
+  broken: (): boolean => { throw new Error('boom'); },
+  hangs: () => new Promise<boolean>(() => undefined)
+};
+
+describe('Metrics', () => {
+  const build = () => {
+    const metrics = new PrometheusMetrics();
+    const rbac = new PermissionService(config, { predicates, metrics, predicateTimeoutMs: 20 });
+    return { rbac, metrics };
+  };
+
+  it('counts checks by permission and decision', () => {
+    const { rbac, metrics } = build();
+    rbac.hasPermission(['viewer'], 'posts:read');
+    rbac.can.readPosts(['viewer']);
+    rbac.checkPermissionDetailed(['viewer'], 'posts:update');
+
+    const text = metrics.render();
+    expect(text).toContain('# TYPE authz_checks_total counter');
+    expect(text).toContain('authz_checks_total{permission="posts:read",decision="allow"} 2');
+    expect(text).toContain('authz_checks_total{permission="posts:update",decision="deny"} 1');
+    expect(text).toContain('authz_check_duration_seconds_bucket{decision="allow",le="+Inf"} 2');
+    expect(text).toContain('authz_check_duration_seconds_count{decision="deny"} 1');
+  });
+
+  it('labels instance checks by permission type', () => {
+    const { rbac, metrics } = build();
+    ['0', '1', '2'].forEach(id => rbac.hasPermission(['viewer'], `posts.content:read#${id}`));
+
+    const text = metrics.render();
+    expect(text).toContain('authz_checks_total{permission="posts.content:read",decision="allow"} 3');
+    expect(text).not.toMatch(/read#/);
+  });
+
+  it('counts predicate outcomes, errors and timeouts', async () => {
+    const { rbac, metrics } = build();
+    rbac.hasPermission(['author'], 'posts.content:update', { userId: 'alice', resource: { ownerId: 'alice' } });
+    rbac.hasPermission(['author'], 'posts.content:update', { userId: 'alice', resource: { ownerId: 'bob' } });
+    rbac.hasPermission(['flaky'], 'posts:delete', { userId: 'alice' });
+    await rbac.hasPermissionAsync(['slow'], 'posts:create', { userId: 'alice' });
+
+    const text = metrics.render();
+    expect(text).toContain('authz_predicate_evaluations_total{predicate="isOwner",outcome="passed"} 1');
+    expect(text).toContain('authz_predicate_evaluations_total{predicate="isOwner",outcome="failed"} 1');
+    expect(text).toContain('authz_predicate_evaluations_total{predicate="broken",outcome="error"} 1');
+    expect(text).toContain('authz_predicate_evaluations_total{predicate="hangs",outcome="timeout"} 1');
+  });
+
+  it('counts checks that throw', async () => {
+    const { rbac, metrics } = build();
+    expect(() => rbac.hasPermission(['slow'], 'posts:create', { userId: 'alice' })).toThrow(/is async/);
+    const strict = new PermissionService(config, { predicates, metrics, onPredicateError: { broken: 'throw' } });
+    await expect(strict.checkPermissionDetailedAsync(['flaky'], 'posts:delete', { userId: 'alice' })).rejects.toThrow(
+      "Predicate 'broken' failed: boom"
+    );
+
+    const text = metrics.render();
+    expect(text).toContain('authz_checks_total{permission="posts:create",decision="error"} 1');
+    expect(text).toContain('authz_checks_total{permission="posts:delete",decision="error"} 1');
+    expect(text).toContain('authz_check_duration_seconds_count{decision="error"} 2');
+  });
+
+  it('renders cumulative histogram buckets', () => {
+    const metrics = new PrometheusMetrics({ prefix: 'app_', buckets: [0.01, 0.001] });
+    metrics.recordCheck('posts:read', true, 0.5);
+    metrics.recordCheck('posts:read', true, 5);
+    metrics.recordCheck('posts:read', true, 50);
+
+    expect(metrics.render().split('\n').filter(line => line.startsWith('app_check_duration_seconds'))).toEqual([
+      'app_check_duration_seconds_bucket{decision="allow",le="0.001"} 1',
+      'app_check_duration_seconds_bucket{decision="allow",le="0.01"} 2',
+      'app_check_duration_seconds_bucket{decision="allow",le="+Inf"} 3',
+      'app_check_duration_seconds_sum{decision="allow"} 0.0555',
+      'app_check_duration_seconds_count{decision="allow"} 3'
+    ]);
+    metrics.reset();
+    expect(metrics.render()).not.toContain('app_checks_total{');
+  });
+
+  it('escapes label values and validates options', () => {
+    const metrics = new PrometheusMetrics();
+    metrics.recordPredicate('say "hi"\\', 'passed');
+    expect(metrics.render()).toContain('{predicate="say \\"hi\\"\\\\",outcome="passed"} 1');
+    expect(() => new PrometheusMetrics({ prefix: 'bad-prefix' })).toThrow("Invalid metric prefix 'bad-prefix'.");
+    expect(() => new PrometheusMetrics({ buckets: [0] })).toThrow('Histogram buckets must be positive, finite numbers of seconds.');
+  });
+
+  it('accepts any MetricsCollector', () => {
+    const recordCheck = jest.fn();
+    const recordPredicate = jest.fn();
+    const metrics: MetricsCollector = { recordCheck, recordPredicate };
+    const rbac = new PermissionService(config, { predicates, metrics });
+    rbac.saveSubject({ id: 'alice', type: 'user', roles: ['author'] });
+    rbac.check('alice', 'posts.content:update', { resource: { ownerId: 'alice' } });
+
+    expect(recordCheck).toHaveBeenCalledWith('posts.content:update', true, expect.any(Number));
+    expect(recordPredicate).toHaveBeenCalledWith('isOwner', 'passed');
+  });
+});
+
+describe('Tracing', () => {
+  const build = () => {
+    const spans: { name: string; attributes: Record<string, unknown>; ended: boolean; status?: unknown }[] = [];
+    const tracer: CheckTracer = {
+      startSpan: (name, attributes) => {
+        const span: (typeof spans)[number] = { name, attributes: { ...attributes }, ended: false };
+        spans.push(span);
+        return {
+          setAttributes: more => Object.assign(span.attributes, more),
+          setStatus: status => { span.status = status; },
+          end: () => { span.ended = true; }
+        };
+      }
+    };
+    return { rbac: new PermissionService(config, { predicates, tracer }), spans };
+  };
+
+  it('wraps each check in a span', async () => {
+    const { rbac, spans } = build();
+    rbac.hasPermission(['viewer'], 'posts:read', { userId: 'alice', organizationId: 'acme' });
+    await rbac.checkPermissionDetailedAsync(['viewer'], 'posts:update');
+
+    expect(spans).toEqual([
+      {
+        name: 'authz.check',
+        attributes: {
+          'authz.permission': 'posts:read',
+          'authz.subject': 'alice',
+          'authz.organization_id': 'acme',
+          'authz.allowed': true,
+          'authz.path': 'unconditional'
+        },
+        ended: true
+      },
+      {
+        name: 'authz.check',
+        attributes: { 'authz.permission': 'posts:update', 'authz.allowed': false },
+        ended: true
+      }
+    ]);
+  });
+
+  it('ends the span of a check that throws with an error status', () => {
+    const { rbac, spans } = build();
+    expect(() => rbac.hasPermission(['slow'], 'posts:create', { userId: 'alice' })).toThrow(/is async/);
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0]).toMatchObject({
+      ended: true,
+      status: { code: 2, message: expect.stringMatching(/is async/) },
+      attributes: { 'authz.permission': 'posts:create', 'authz.error': expect.stringMatching(/is async/) }
+    });
+    expect(spans[0].attributes['authz.allowed']).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Per-module action hierarchy tests.
+ * Covers: module and resource definitions extending or replacing the global
+ * hierarchy, inheritance down the resource tree, global wildcard cascading,
+ * semantic methods, stats and validation.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { RBACConfig } from '../../src/types';
+
+describe('Per-module action hierarchies', () => {
+  const config: RBACConfig = {
+    modules: {
+      users: ['profile'],
+      blog: {
+        resources: ['posts', { drafts: ['revisions'] }],
+        hierarchy: { approve: ['update'] }
+      },
+      ledger: {
+        resources: [{ entries: { resources: ['lines'], hierarchy: { void: ['post'] } } }],
+        hierarchy: { post: ['view'], view: [] },
+        hierarchyMode: 'replace'
+      }
+    },
+    roles: {
+      approver: { id: 'approver', name: 'Approver', permissions: ['blog:approve'] },
+      superApprover: { id: 'superApprover', name: 'Super Approver', permissions: ['*:approve'] },
+      reader: { id: 'reader', name: 'Reader', permissions: ['*:read'] },
+      voider: { id: 'voider', name: 'Voider', permissions: ['ledger.entries:void'] },
+      poster: { id: 'poster', name: 'Poster', permissions: ['ledger:post'] }
+    }
+  };
+  const rbac = new PermissionService(config);
+  // A configured permission always grants itself
+  const exists = (permission: string) => rbac.whoGrantsPermission(permission).has(permission);
+
+  it('adds module actions only to that module', () => {
+    expect(exists('blog:approve')).toBe(true);
+    expect(exists('blog.drafts.revisions:approve')).toBe(true);
+    expect(exists('users:approve')).toBe(false);
+    expect(exists('users.profile:approve')).toBe(false);
+  });
+
+  it('extends the global hierarchy', () => {
+    expect(rbac.hasPermission(['approver'], 'blog.posts:approve')).toBe(true);
+    expect(rbac.hasPermission(['approver'], 'blog.posts:update')).toBe(true);
+    expect(rbac.hasPermission(['approver'], 'blog.drafts.revisions:read')).toBe(true);
+    expect(rbac.hasPermission(['approver'], 'blog.posts:delete')).toBe(false);
+  });
+
+  it('replaces the global hierarchy', () => {
+    expect(exists('ledger:read')).toBe(false);
+    expect(exists('ledger.entries.lines:view')).toBe(true);
+    expect(rbac.hasPermission(['poster'], 'ledger.entries.lines:view')).toBe(true);
+  });
+
+  it('lets resources declare their own actions', () => {
+    expect(exists('ledger:void')).toBe(false);
+    expect(rbac.hasPermission(['voider'], 'ledger.entries.lines:void')).toBe(true);
+    expect(rbac.hasPermission(['voider'], 'ledger.entries:view')).toBe(true);
+    expect(rbac.hasPermission(['poster'], 'ledger.entries:void')).toBe(false);
+  });
+
+  it('cascades global wildcards only where the action is defined', () => {
+    expect(rbac.hasPermission(['superApprover'], 'blog.posts:approve')).toBe(true);
+    expect(rbac.hasPermission(['reader'], 'users.profile:read')).toBe(true);
+    expect(rbac.hasPermission(['reader'], 'ledger.entries:view')).toBe(false);
+    expect(rbac.hasPermission(['*:void'], 'ledger.entries.lines:void')).toBe(true);
+  });
+
+  it('generates semantic methods for module actions', () => {
+    expect(rbac.can.approveBlogPosts(['approver'])).toBe(true);
+    expect(rbac.can.approvePosts(['approver'])).toBe(true);
+    expect(() => rbac.can.approveUsers(['approver'])).toThrow();
+  });
+
+  it('counts every declared action in stats', () => {
+    expect(rbac.getStats().actions).toBe(8);
+  });
+
+  it('rejects roles granting an action the module does not have', () => {
+    expect(() => new PermissionService({
+      ...config,
+      roles: { bad: { id: 'bad', name: 'Bad', permissions: ['users:approve'] } }
+    })).toThrow("Invalid permission 'users:approve' found in role 'bad'. Action 'approve' is not defined for 'users'.");
+  });
+
+  it('rejects hierarchies implying undefined actions', () => {
+    expect(() => new PermissionService({
+      modules: { ledger: { hierarchy: { post: ['read'] }, hierarchyMode: 'replace' } }
+    })).toThrow("Action 'post' on 'ledger' implies 'read', which is not defined there.");
+    expect(() => new PermissionService({
+      modules: { ledger: { hierarchy: { post: [] }, hierarchyMode: 'merge' as 'extend' } }
+    })).toThrow(/Invalid hierarchyMode 'merge'/);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Nested resource tests.
+ * Covers: permission generation for resource trees, cascading grants down
+ * every level, semantic method names, stats, name validation and the
+ * visualizer's module hierarchy.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { PermissionVisualizer } from '../../src/utils/visualizer';
+import { RBACConfig } from '../../src/types';
+
+describe('Nested resources', () => {
+  const config: RBACConfig = {
+    modules: {
+      projects: ['settings', { boards: ['columns', { cards: ['comments'] }] }],
+      billing: ['invoices']
+    },
+    roles: {
+      manager: { id: 'manager', name: 'Manager', permissions: ['projects:update'] },
+      boardAdmin: { id: 'boardAdmin', name: 'Board Admin', permissions: ['projects.boards:*'] },
+      commenter: { id: 'commenter', name: 'Commenter', permissions: ['projects.boards.cards.comments:create'] }
+    }
+  };
+  const rbac = new PermissionService(config);
+
+  it('generates permissions at every depth', () => {
+    const exists = (permission: string) => rbac.hasPermission(['projects:*'], permission);
+    expect(exists('projects.boards.columns:read')).toBe(true);
+    expect(exists('projects.boards.cards:*')).toBe(true);
+    expect(exists('projects.boards.cards.comments:delete')).toBe(true);
+    expect(exists('projects.cards:read')).toBe(false);
+  });
+
+  it('cascades grants from each level to all resources below it', () => {
+    expect(rbac.hasPermission(['manager'], 'projects.boards.cards.comments:update')).toBe(true);
+    expect(rbac.hasPermission(['manager'], 'projects.boards.cards.comments:read')).toBe(true);
+    expect(rbac.hasPermission(['manager'], 'projects.boards.cards.comments:delete')).toBe(false);
+
+    expect(rbac.hasPermission(['boardAdmin'], 'projects.boards.cards:delete')).toBe(true);
+    expect(rbac.hasPermission(['boardAdmin'], 'projects.boards.columns:delete')).toBe(true);
+    expect(rbac.hasPermission(['boardAdmin'], 'projects.settings:read')).toBe(false);
+  });
+
+  it('does not cascade upwards', () => {
+    expect(rbac.hasPermission(['commenter'], 'projects.boards.cards.comments:read')).toBe(true);
+    expect(rbac.hasPermission(['commenter'], 'projects.boards.cards:read')).toBe(false);
+  });
+
+  it('generates semantic methods for nested paths', () => {
+    expect(rbac.can.updateProjectsBoardsCardsComments(['manager'])).toBe(true);
+    expect(rbac.can.deleteProjectsBoardsCards(['boardAdmin'])).toBe(true);
+    // Unique leaf names also get short methods
+    expect(rbac.can.createComments(['commenter'])).toBe(true);
+    expect(rbac.can.readColumns(['commenter'])).toBe(false);
+  });
+
+  it('counts nested resources in stats', () => {
+    expect(rbac.getStats().resources).toBe(6);
+  });
+
+  it('rejects invalid and duplicate resource names', () => {
+    expect(() => new PermissionService({ modules: { projects: [{ 'boards.cards': [] }] } })).toThrow(
+      /Invalid resource name 'boards\.cards' under 'projects'/
+    );
+    expect(() => new PermissionService({ modules: { projects: ['boards', { boards: ['cards'] }] } })).toThrow(
+      /Duplicate resource 'boards' under 'projects'/
+    );
+  });
+
+  it('supports nested trees in addModule', () => {
+    const service = new PermissionService(config);
+    service.addModule('wiki', [{ spaces: ['pages'] }]);
+    service.addRole({ id: 'wikiEditor', name: 'Wiki Editor', permissions: ['wiki.spaces:update'] });
+    expect(service.hasPermission(['wikiEditor'], 'wiki.spaces.pages:update')).toBe(true);
+  });
+
+  it('renders the resource tree in the module hierarchy view', () => {
+    const data = new PermissionVisualizer(rbac).generateModuleHierarchyData();
+    const ids = data.nodes.map(n => n.id);
+    expect(ids).toEqual(expect.arrayContaining([
+      'module:projects',
+      'submodule:projects.boards',
+      'submodule:projects.boards.cards.comments'
+    ]));
+    expect(data.edges).toContainEqual({
+      from: 'module:projects', to: 'submodule:projects.boards', label: 'contains'
+    });
+    expect(data.edges).toContainEqual({
+      from: 'submodule:projects.boards.cards', to: 'submodule:projects.boards.cards.comments', label: 'contains'
+    });
+    expect(data.nodes.find(n => n.id === 'submodule:projects.boards.cards')!.label).toBe('cards');
+  });
+});
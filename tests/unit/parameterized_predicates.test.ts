@@ -0,0 +1,85 @@
+/**
+ * Parameterized predicate tests.
+ * Covers: per-grant arguments, defaults, schema validation at construction,
+ * trees, async evaluation and reporting.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { RBACConfig, ParameterizedPredicate, PermissionServiceOptions } from '../../src/types';
+
+const modules = { reports: ['sales'] };
+
+const inOrg: ParameterizedPredicate = {
+  args: { orgs: { type: 'string[]' } },
+  evaluate: (ctx, args) => (args.orgs as string[]).includes(ctx.organizationId ?? '')
+};
+
+const hourWindow: ParameterizedPredicate = {
+  args: {
+    from: { type: 'number', min: 0, max: 23 },
+    to: { type: 'number', min: 0, max: 24 },
+    clock: { type: 'string', enum: ['utc', 'local'], default: 'utc' }
+  },
+  evaluate: (ctx, args) => {
+    const ts = ctx.timestamp ?? new Date();
+    const hour = args.clock === 'utc' ? ts.getUTCHours() : ts.getHours();
+    return hour >= (args.from as number) && hour < (args.to as number);
+  }
+};
+
+const options: PermissionServiceOptions = { predicates: { inOrg, hourWindow, always: () => true } };
+
+const roleWith = (when: unknown): RBACConfig => ({
+  modules,
+  roles: { analyst: { id: 'analyst', name: 'Analyst', permissions: [{ permission: 'reports:read', when } as never] } }
+});
+
+describe('Parameterized predicates', () => {
+  const rbac = new PermissionService(
+    roleWith([{ name: 'inOrg', args: { orgs: ['acme', 'globex'] } }, { name: 'hourWindow', args: { from: 9, to: 17 } }]),
+    options
+  );
+  const at = (hour: number) => new Date(Date.UTC(2024, 0, 15, hour));
+
+  it('passes per-grant arguments and applies defaults', () => {
+    expect(rbac.hasPermission(['analyst'], 'reports.sales:read', { organizationId: 'acme', timestamp: at(10) })).toBe(true);
+    expect(rbac.hasPermission(['analyst'], 'reports.sales:read', { organizationId: 'initech', timestamp: at(10) })).toBe(false);
+    expect(rbac.hasPermission(['analyst'], 'reports.sales:read', { organizationId: 'acme', timestamp: at(18) })).toBe(false);
+  });
+
+  it('reports arguments in the condition tree', () => {
+    const result = rbac.checkPermissionDetailed(['analyst'], 'reports:read', { organizationId: 'globex', timestamp: at(9) });
+    expect(result.matchedVia?.conditions?.children?.[0]).toEqual({
+      kind: 'predicate',
+      name: 'inOrg',
+      args: { orgs: ['acme', 'globex'] },
+      passed: true
+    });
+  });
+
+  it('distinguishes calls with different arguments in async checks', async () => {
+    const asyncOptions: PermissionServiceOptions = {
+      predicates: {
+        inOrg: { ...inOrg, evaluate: async (ctx, args) => (args.orgs as string[]).includes(ctx.organizationId ?? '') }
+      }
+    };
+    const rbacAsync = new PermissionService(
+      roleWith({ anyOf: [{ name: 'inOrg', args: { orgs: ['a'] } }, { name: 'inOrg', args: { orgs: ['b'] } }] }),
+      asyncOptions
+    );
+    await expect(rbacAsync.hasPermissionAsync(['analyst'], 'reports:read', { organizationId: 'b' })).resolves.toBe(true);
+    await expect(rbacAsync.hasPermissionAsync(['analyst'], 'reports:read', { organizationId: 'c' })).resolves.toBe(false);
+  });
+
+  it('validates arguments against the schema at construction', () => {
+    const build = (when: unknown) => () => new PermissionService(roleWith(when), options);
+
+    expect(build('inOrg')).toThrow(/invalid arguments to predicate 'inOrg'.*missing required argument 'orgs'/);
+    expect(build({ name: 'inOrg', args: { orgs: 'acme' } })).toThrow(/argument 'orgs' must be string\[\]/);
+    expect(build({ name: 'inOrg', args: { orgs: [], region: 'eu' } })).toThrow(/unknown argument 'region'/);
+    expect(build({ name: 'hourWindow', args: { from: 9, to: 30 } })).toThrow(/argument 'to' must be between 0 and 24/);
+    expect(build({ name: 'hourWindow', args: { from: 9, to: 17, clock: 'mars' } })).toThrow(/must be one of utc, local/);
+    expect(build({ name: 'always', args: { x: 1 } })).toThrow(/it takes no arguments/);
+    expect(build({ name: 'missing' })).toThrow(/unknown predicate 'missing'/);
+  });
+});
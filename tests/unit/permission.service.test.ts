@@ -59,6 +59,49 @@ describe('PermissionService', () => {
     });
   });
 
+  describe('Transitive Closure', () => {
+    it('should be transitively closed', () => {
+      for (const grantor of ['role:editor', '*:delete', 'users:*', 'posts:update']) {
+        const grants = service.whatDoesPermissionGrant(grantor);
+        grants.forEach(granted => {
+          service.whatDoesPermissionGrant(granted).forEach(indirect => {
+            expect(grants.has(indirect)).toBe(true);
+          });
+        });
+      }
+    });
+
+    it('should keep grants and grantedBy symmetric', () => {
+      const grants = service.whatDoesPermissionGrant('role:editor');
+      expect(grants.has('posts.comments:read')).toBe(true);
+      grants.forEach(granted => {
+        expect(service.whoGrantsPermission(granted).has('role:editor')).toBe(true);
+      });
+    });
+
+    it('should close long role inheritance chains', () => {
+      const roles: RBACConfig['roles'] = {};
+      for (let i = 0; i < 500; i++) {
+        roles[`r${i}`] = {
+          id: `r${i}`,
+          name: `Role ${i}`,
+          permissions: i === 0 ? ['users.profile:read'] : [],
+          inherits: i === 0 ? undefined : [`r${i - 1}`]
+        };
+      }
+      const chained = new PermissionService({ modules: testConfig.modules, roles });
+      expect(chained.hasPermission(['r499'], 'users.profile:read')).toBe(true);
+      expect(chained.whoGrantsPermission('users.profile:read').has('role:r499')).toBe(true);
+    });
+
+    it('should not close the internal *:* node', () => {
+      expect(service.whatDoesPermissionGrant('*:*')).toEqual(new Set(['*:delete', '*:update', '*:create', '*:read']));
+      expect(service.hasPermission(['*:*'], '*:delete')).toBe(true);
+      expect(service.hasPermission(['*:*'], 'posts.content:delete')).toBe(false);
+      expect(service.whoGrantsPermission('posts:read').has('*:*')).toBe(false);
+    });
+  });
+
   describe('Role Inheritance', () => {
     it('should allow inherited permissions', () => {
       // editor inherits viewer, viewer has *:read
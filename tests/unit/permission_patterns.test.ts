@@ -0,0 +1,102 @@
+/**
+ * Permission pattern tests.
+ * Covers: glob segments and brace alternatives in role grants, patterns in
+ * denies, conditions and instances, validation of patterns matching nothing
+ * and expansion into the compiled closure.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { EnrichedContext, RBACConfig } from '../../src/types';
+
+describe('Permission patterns', () => {
+  const config: RBACConfig = {
+    modules: {
+      posts: ['content', 'comments', 'tags'],
+      pages: ['content', 'comments'],
+      admin: ['users', 'logs', 'settings']
+    },
+    roles: {
+      moderator: { id: 'moderator', name: 'Moderator', permissions: ['*.comments:update'] },
+      postEditor: { id: 'postEditor', name: 'Post Editor', permissions: ['posts.*:update'] },
+      auditor: { id: 'auditor', name: 'Auditor', permissions: ['admin.{users,logs}:read'] },
+      restricted: {
+        id: 'restricted',
+        name: 'Restricted',
+        permissions: ['*:update', { deny: '*.comments:delete' }, { deny: '{posts,pages}.content:update' }]
+      },
+      owner: {
+        id: 'owner',
+        name: 'Owner',
+        permissions: [{ permission: 'posts.{content,tags}:delete', when: 'isOwner' }]
+      },
+      single: { id: 'single', name: 'Single', permissions: ['posts.*:update#42'] }
+    }
+  };
+  const options = {
+    predicates: { isOwner: (ctx: EnrichedContext) => !!ctx.userId && (ctx.resource as { ownerId?: string })?.ownerId === ctx.userId }
+  };
+  const rbac = new PermissionService(config, options);
+
+  it('expands a wildcard module segment', () => {
+    expect(rbac.hasPermission(['moderator'], 'posts.comments:update')).toBe(true);
+    expect(rbac.hasPermission(['moderator'], 'pages.comments:read')).toBe(true);
+    expect(rbac.hasPermission(['moderator'], 'posts.content:update')).toBe(false);
+  });
+
+  it('expands a wildcard resource segment', () => {
+    expect(rbac.hasPermission(['postEditor'], 'posts.tags:update')).toBe(true);
+    expect(rbac.hasPermission(['postEditor'], 'posts:update')).toBe(false);
+    expect(rbac.hasPermission(['postEditor'], 'pages.content:update')).toBe(false);
+  });
+
+  it('expands brace alternatives', () => {
+    expect(rbac.hasPermission(['auditor'], 'admin.users:read')).toBe(true);
+    expect(rbac.hasPermission(['auditor'], 'admin.logs:read')).toBe(true);
+    expect(rbac.hasPermission(['auditor'], 'admin.settings:read')).toBe(false);
+  });
+
+  it('lands expanded grants in the closure', () => {
+    const explained = rbac.checkPermissionDetailed(['moderator'], 'pages.comments:read');
+    expect(explained.allowed).toBe(true);
+    expect(explained.matchedVia?.path).toBe('unconditional');
+  });
+
+  it('supports patterns in denies', () => {
+    expect(rbac.hasPermission(['restricted'], 'posts.comments:update')).toBe(true);
+    expect(rbac.hasPermission(['restricted'], 'posts.content:update')).toBe(false);
+    expect(rbac.hasPermission(['restricted'], 'pages.content:update')).toBe(false);
+    expect(rbac.hasPermission(['restricted'], 'posts.tags:update')).toBe(true);
+  });
+
+  it('supports patterns in conditional grants', () => {
+    const mine = { userId: 'u1', resource: { ownerId: 'u1' } };
+    expect(rbac.hasPermission(['owner'], 'posts.tags:delete', mine)).toBe(true);
+    expect(rbac.hasPermission(['owner'], 'posts.comments:delete', mine)).toBe(false);
+    expect(rbac.hasPermission(['owner'], 'posts.tags:delete', { userId: 'u2', resource: { ownerId: 'u1' } })).toBe(false);
+  });
+
+  it('supports patterns in instance grants', () => {
+    expect(rbac.hasPermission(['single'], 'posts.content:update#42')).toBe(true);
+    expect(rbac.hasPermission(['single'], 'posts.content:update#43')).toBe(false);
+  });
+
+  it('rejects patterns that match nothing', () => {
+    expect(() => new PermissionService({
+      modules: config.modules,
+      roles: { bad: { id: 'bad', name: 'Bad', permissions: ['*.reports:read'] } }
+    })).toThrow("Permission pattern '*.reports:read' in role 'bad' matches no configured permissions.");
+  });
+
+  it('rejects malformed braces', () => {
+    expect(() => new PermissionService({
+      modules: config.modules,
+      roles: { bad: { id: 'bad', name: 'Bad', permissions: ['admin.{users,logs:read'] } }
+    })).toThrow(/Unbalanced '\{'/);
+  });
+
+  it('re-expands patterns when modules change', () => {
+    const service = new PermissionService(config, options);
+    service.addModule('wiki', ['comments']);
+    expect(service.hasPermission(['moderator'], 'wiki.comments:update')).toBe(true);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Policy suite tests.
+ * Covers: loading YAML and JSON suites, case validation, expected decisions and paths,
+ * checks that throw, the failure report, config modules with predicates, and the CLI.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { main } from '../../src/cli';
+import { PermissionService } from '../../src/core/permission.service';
+import { formatPolicyTestReport, loadPolicyConfig, loadPolicyTestSuite, runPolicyTests } from '../../src/core/policy.suite';
+import { RBACConfig } from '../../src/types';
+
+const config: RBACConfig = {
+  modules: { posts: ['content'] },
+  roles: {
+    viewer: { id: 'viewer', name: 'Viewer', permissions: ['posts:read'] },
+    editor: { id: 'editor', name: 'Editor', permissions: ['posts:update'], inherits: ['viewer'] }
+  }
+};
+
+const suiteYaml = `
+config: rbac.json
+cases:
+  - name: viewers read posts
+    permissions: [viewer]
+    permission: posts:read
+    expect: allow
+    path: unconditional
+  - permissions: [viewer]
+    permission: posts:update
+    context: { userId: alice, timestamp: 2026-01-05T10:00:00Z }
+    expect: deny
+`;
+
+describe('Policy suites', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'authz-policy-'));
+    writeFileSync(join(dir, 'rbac.json'), JSON.stringify(config));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads YAML and JSON suites', () => {
+    writeFileSync(join(dir, 'suite.yaml'), suiteYaml);
+    const suite = loadPolicyTestSuite(join(dir, 'suite.yaml'));
+    expect(suite.config).toBe(join(dir, 'rbac.json'));
+    expect(suite.cases[0]).toEqual({
+      name: 'viewers read posts',
+      permissions: ['viewer'],
+      permission: 'posts:read',
+      expect: 'allow',
+      path: 'unconditional'
+    });
+    expect(suite.cases[1].context?.timestamp).toEqual(new Date('2026-01-05T10:00:00Z'));
+
+    writeFileSync(join(dir, 'suite.json'), JSON.stringify({
+      cases: [{ permissions: ['viewer'], permission: 'posts:read', context: { timestamp: '2026-01-05T10:00:00Z' }, expect: 'allow' }]
+    }));
+    const json = loadPolicyTestSuite(join(dir, 'suite.json'));
+    expect(json.config).toBeUndefined();
+    expect(json.cases[0].context?.timestamp).toEqual(new Date('2026-01-05T10:00:00Z'));
+  });
+
+  it('validates cases', () => {
+    const load = (cases: unknown) => {
+      writeFileSync(join(dir, 'bad.json'), JSON.stringify({ cases }));
+      return () => loadPolicyTestSuite(join(dir, 'bad.json'));
+    };
+    const where = `case 1 of '${join(dir, 'bad.json')}'`;
+
+    expect(load(undefined)).toThrow(`Policy test suite '${join(dir, 'bad.json')}' must have a list of cases.`);
+    expect(load([{ permissions: 'viewer', permission: 'posts:read', expect: 'allow' }])).toThrow(
+      `Invalid permissions in ${where}. Use a list of roles and permissions.`
+    );
+    expect(load([{ permissions: [], permission: 'posts:read', expect: 'maybe' }])).toThrow(
+      `Invalid expect in ${where}. Use 'allow', 'deny' or 'indeterminate'.`
+    );
+    expect(load([{ permissions: [], permission: 'posts:read', expect: 'allow', path: 'direct' }])).toThrow(
+      `Invalid path in ${where}. Use 'unconditional', 'conditional', 'instance', 'relation'.`
+    );
+    expect(load([{ permissions: [], permission: 'posts:read', expect: 'deny', context: { timestamp: 'soon' } }])).toThrow(
+      `Invalid context.timestamp in ${where}. Use an ISO 8601 date.`
+    );
+    writeFileSync(join(dir, 'suite.txt'), '');
+    expect(() => loadPolicyTestSuite(join(dir, 'suite.txt'))).toThrow('Use .json, .yaml or .yml.');
+  });
+
+  it('runs cases and reports failures', () => {
+    const rbac = new PermissionService(
+      { ...config, roles: { ...config.roles, flaky: { id: 'flaky', name: 'Flaky', permissions: [{ permission: 'posts:delete', when: 'broken' }] } } },
+      { predicates: { broken: () => { throw new Error('boom'); } }, onPredicateError: { broken: 'throw' } }
+    );
+    const report = runPolicyTests(rbac, [
+      { permissions: ['viewer'], permission: 'posts:read', expect: 'allow' },
+      { name: 'viewers cannot edit', permissions: ['editor'], permission: 'posts:update', expect: 'deny' },
+      { permissions: ['role:editor'], permission: 'posts:read', expect: 'allow', path: 'conditional' },
+      { permissions: ['flaky'], permission: 'posts:delete', context: { userId: 'alice' }, expect: 'deny' }
+    ]);
+
+    expect(report).toMatchObject({ passed: 1, failed: 3 });
+    expect(report.results.map(result => result.failures)).toEqual([
+      [],
+      ['expected deny, got allow'],
+      ['expected the conditional path, got unconditional'],
+      ["check threw: Predicate 'broken' failed: boom"]
+    ]);
+    expect(report.results[3].result).toBeUndefined();
+
+    const text = formatPolicyTestReport(report);
+    expect(text).toContain('✗ viewers cannot edit\n    posts:update with [editor]\n    expected deny, got allow\n    matched via role:editor (unconditional)');
+    expect(text).toContain('✗ posts:delete: deny');
+    expect(text.endsWith('1 passed, 3 failed, 4 total')).toBe(true);
+  });
+
+  it('loads config modules with service options', () => {
+    writeFileSync(join(dir, 'rbac.js'), `
+      exports.config = {
+        modules: { posts: ['content'] },
+        roles: { author: { id: 'author', name: 'Author', permissions: [{ permission: 'posts.content:update', when: 'isOwner' }] } }
+      };
+      exports.options = { predicates: { isOwner: ctx => ctx.resource && ctx.resource.ownerId === ctx.userId } };
+    `);
+    const { config: loaded, options } = loadPolicyConfig(join(dir, 'rbac.js'));
+    const report = runPolicyTests(new PermissionService(loaded, options), [
+      {
+        permissions: ['author'],
+        permission: 'posts.content:update',
+        context: { userId: 'alice', resource: { ownerId: 'alice' } },
+        expect: 'allow',
+        path: 'conditional'
+      }
+    ]);
+    expect(report.failed).toBe(0);
+  });
+
+  it('runs suites from the CLI', () => {
+    writeFileSync(join(dir, 'suite.yaml'), suiteYaml);
+    writeFileSync(join(dir, 'failing.yaml'), 'cases:\n  - { permissions: [viewer], permission: posts:update, expect: allow }\n');
+    const output: string[] = [];
+    const write = (text: string) => output.push(text);
+
+    expect(main([join(dir, 'suite.yaml')], write)).toBe(0);
+    expect(output.pop()).toBe('2 passed, 0 failed, 2 total');
+
+    expect(main([join(dir, 'suite.yaml'), join(dir, 'failing.yaml'), '--config', join(dir, 'rbac.json')], write)).toBe(1);
+    expect(output.pop()).toContain('expected allow, got deny');
+
+    expect(main([join(dir, 'failing.yaml')], write)).toBe(2);
+    expect(output.pop()).toContain('names no config. Set config in the suite or pass --config.');
+    expect(main([], write)).toBe(2);
+    expect(output.pop()).toMatch(/^Usage: authz-policy-test/);
+  });
+});
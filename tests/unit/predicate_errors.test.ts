@@ -0,0 +1,104 @@
+/**
+ * Predicate error tests.
+ * Covers: errors reported in detailed results, fail-closed (indeterminate), fail-open and
+ * throw policies, the default policy, async rejections and timeouts, decision records and
+ * policy validation.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { DecisionRecord, PermissionServiceOptions, RBACConfig } from '../../src/types';
+
+const config: RBACConfig = {
+  modules: { posts: ['content'] },
+  roles: {
+    viewer: { id: 'viewer', name: 'Viewer', permissions: ['posts:read'] },
+    author: { id: 'author', name: 'Author', permissions: [{ permission: 'posts.content:update', when: 'isOwner' }] },
+    flaky: { id: 'flaky', name: 'Flaky', permissions: [{ permission: 'posts:delete', when: 'broken' }] },
+    remote: { id: 'remote', name: 'Remote', permissions: [{ permission: 'posts:create', when: ['rejects', 'hangs'] }] }
+  }
+};
+
+const predicates = {
+  isOwner: (ctx: { resource?: unknown; userId?: string }) => (ctx.resource as { ownerId?: string })?.ownerId === ctx.userId,
+  broken: (): boolean => { throw new Error('boom'); },
+  rejects: () => Promise.reject(new Error('lookup failed')),
+  hangs: () => new Promise<boolean>(() => undefined)
+};
+
+const build = (onPredicateError?: PermissionServiceOptions['onPredicateError']) =>
+  new PermissionService(config, { predicates, onPredicateError, predicateTimeoutMs: 20 });
+
+describe('Predicate errors', () => {
+  it('reports errors and an indeterminate decision by default', () => {
+    const rbac = build();
+    const result = rbac.checkPermissionDetailed(['flaky'], 'posts:delete', { userId: 'alice' });
+
+    expect(result).toMatchObject({
+      allowed: false,
+      decision: 'indeterminate',
+      reason: 'Indeterminate. Predicates failed with errors: [broken: boom].',
+      predicateErrors: [{ name: 'broken', message: 'boom', policy: 'failClosed' }]
+    });
+    expect(rbac.hasPermission(['flaky'], 'posts:delete', { userId: 'alice' })).toBe(false);
+  });
+
+  it('keeps deny and allow decisions without errors', () => {
+    const rbac = build();
+    const denied = rbac.checkPermissionDetailed(['author'], 'posts.content:update', { userId: 'alice', resource: { ownerId: 'bob' } });
+    expect(denied.decision).toBe('deny');
+    expect(denied.predicateErrors).toBeUndefined();
+    expect(rbac.checkPermissionDetailed(['viewer'], 'posts:read').decision).toBe('allow');
+  });
+
+  it('lets a fail-open predicate pass', () => {
+    const rbac = build({ broken: 'failOpen' });
+    const result = rbac.checkPermissionDetailed(['flaky'], 'posts:delete', { userId: 'alice' });
+    expect(result).toMatchObject({
+      allowed: true,
+      decision: 'allow',
+      predicateErrors: [{ name: 'broken', message: 'boom', policy: 'failOpen' }]
+    });
+  });
+
+  it('throws under the throw policy', async () => {
+    const rbac = build({ '*': 'throw' });
+    expect(() => rbac.hasPermission(['flaky'], 'posts:delete', { userId: 'alice' })).toThrow("Predicate 'broken' failed: boom");
+    await expect(rbac.hasPermissionAsync(['remote'], 'posts:create', { userId: 'alice' })).rejects.toThrow(
+      "Predicate 'rejects' failed: lookup failed"
+    );
+  });
+
+  it('uses the per-predicate policy over the default', () => {
+    const rbac = build({ '*': 'throw', broken: 'failClosed' });
+    expect(rbac.checkPermissionDetailed(['flaky'], 'posts:delete', { userId: 'alice' }).decision).toBe('indeterminate');
+  });
+
+  it('reports async rejections and timeouts', async () => {
+    const rbac = build();
+    const result = await rbac.checkPermissionDetailedAsync(['remote'], 'posts:create', { userId: 'alice' });
+    expect(result.decision).toBe('indeterminate');
+    expect(result.predicateErrors).toEqual([
+      { name: 'rejects', message: 'lookup failed', policy: 'failClosed' },
+      { name: 'hangs', message: 'Timed out after 20 ms.', policy: 'failClosed' }
+    ]);
+  });
+
+  it('adds errors to decision records', () => {
+    const records: DecisionRecord[] = [];
+    const rbac = build();
+    rbac.onDecision(record => records.push(record));
+    rbac.hasPermission(['flaky'], 'posts:delete', { userId: 'alice' });
+    expect(records[0]).toMatchObject({
+      allowed: false,
+      failedPredicates: ['broken'],
+      predicateErrors: [{ name: 'broken', message: 'boom', policy: 'failClosed' }]
+    });
+  });
+
+  it('validates policies', () => {
+    expect(() => build({ missing: 'failOpen' })).toThrow("Error policy set for unknown predicate 'missing'.");
+    expect(() => build({ broken: 'ignore' as never })).toThrow(
+      "Invalid error policy 'ignore' for predicate 'broken'. Use 'failClosed', 'failOpen' or 'throw'."
+    );
+  });
+});
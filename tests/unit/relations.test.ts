@@ -0,0 +1,156 @@
+/**
+ * Relationship-based access (tuple store) tests.
+ * Covers: direct tuples, usersets, computed relations, parent traversal,
+ * hasPermission integration, explanations, custom adapters and validation.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { InMemoryTupleStore, parseTuple } from '../../src/core/relation.store';
+import { RBACConfig, RelationTuple, TupleStoreAdapter } from '../../src/types';
+
+const config: RBACConfig = {
+  modules: { docs: ['document', 'folder'] },
+  roles: {
+    admin: { id: 'admin', name: 'Admin', permissions: ['docs:*'] },
+    restricted: { id: 'restricted', name: 'Restricted', permissions: [{ deny: 'docs.document:read' }] }
+  },
+  relations: {
+    group: { relations: { member: {} } },
+    folder: {
+      resource: 'docs.folder',
+      relations: {
+        viewer: { permissions: ['docs.folder:read'] }
+      }
+    },
+    document: {
+      resource: 'docs.document',
+      relations: {
+        parent: {},
+        owner: { permissions: ['docs.document:delete'] },
+        editor: { permissions: ['docs.document:update'], includes: ['owner'] },
+        viewer: {
+          permissions: ['docs.document:read'],
+          includes: ['editor'],
+          fromParent: [{ through: 'parent', relation: 'viewer' }]
+        }
+      }
+    }
+  }
+};
+
+const tuples = [
+  'document:42#owner@user:alice',
+  'document:42#viewer@group:eng#member',
+  'group:eng#member@user:bob',
+  'document:42#parent@folder:7',
+  'folder:7#viewer@user:carol'
+];
+
+describe('Relationship tuples', () => {
+  let rbac: PermissionService;
+
+  beforeEach(() => {
+    rbac = new PermissionService(config);
+    rbac.writeRelations(tuples);
+  });
+
+  it('parses tuples with usersets', () => {
+    expect(parseTuple('document:42#viewer@group:eng#member')).toEqual({
+      object: 'document:42',
+      relation: 'viewer',
+      subject: 'group:eng#member'
+    });
+    expect(() => parseTuple('document:42@user:alice')).toThrow(/Invalid relation tuple/);
+  });
+
+  it('resolves direct tuples and computed relations', () => {
+    expect(rbac.checkRelation('user:alice', 'owner', 'document:42')).toBe(true);
+    expect(rbac.checkRelation('user:alice', 'viewer', 'document:42')).toBe(true);
+    expect(rbac.checkRelation('user:alice', 'owner', 'document:43')).toBe(false);
+  });
+
+  it('resolves usersets', () => {
+    expect(rbac.checkRelation('user:bob', 'viewer', 'document:42')).toBe(true);
+    expect(rbac.checkRelation('user:bob', 'editor', 'document:42')).toBe(false);
+  });
+
+  it('traverses parent objects', () => {
+    expect(rbac.checkRelation('user:carol', 'viewer', 'document:42')).toBe(true);
+    expect(rbac.checkRelation('user:carol', 'viewer', 'document:43')).toBe(false);
+  });
+
+  it('grants mapped permissions on the object instance through hasPermission', () => {
+    expect(rbac.hasPermission([], 'docs.document:delete#42', { userId: 'alice' })).toBe(true);
+    expect(rbac.hasPermission([], 'docs.document:read#42', { userId: 'alice' })).toBe(true);
+    expect(rbac.hasPermission([], 'docs.document:read#42', { subject: 'user:carol' })).toBe(true);
+    expect(rbac.hasPermission([], 'docs.document:update#42', { userId: 'carol' })).toBe(false);
+    expect(rbac.hasPermission([], 'docs.document:read', { userId: 'alice' })).toBe(false);
+    expect(rbac.hasPermission([], 'docs.document:read#42')).toBe(false);
+  });
+
+  it('keeps role grants and explicit denies authoritative', () => {
+    expect(rbac.hasPermission(['admin'], 'docs.document:delete#99', { userId: 'dave' })).toBe(true);
+    expect(rbac.hasPermission(['restricted'], 'docs.document:read#42', { userId: 'alice' })).toBe(false);
+  });
+
+  it('explains relation grants in checkPermissionDetailed', () => {
+    const result = rbac.checkPermissionDetailed([], 'docs.document:read#42', { userId: 'carol' });
+    expect(result.allowed).toBe(true);
+    expect(result.matchedVia).toEqual({
+      userPermission: 'user:carol',
+      path: 'relation',
+      relation: 'viewer',
+      relationPath: ['document:42#parent@folder:7', 'folder:7#viewer@user:carol']
+    });
+    expect(result.reason).toMatch(/relation 'viewer'/);
+  });
+
+  it('stops following cyclic tuples', () => {
+    rbac.writeRelations(['group:a#member@group:b#member', 'group:b#member@group:a#member']);
+    expect(rbac.checkRelation('user:zed', 'member', 'group:a')).toBe(false);
+  });
+
+  it('removes tuples', () => {
+    rbac.deleteRelations(['document:42#parent@folder:7']);
+    expect(rbac.checkRelation('user:carol', 'viewer', 'document:42')).toBe(false);
+  });
+
+  it('reads through a custom adapter', () => {
+    const reads: string[] = [];
+    const inner = new InMemoryTupleStore();
+    const adapter: TupleStoreAdapter = {
+      write: (t: RelationTuple[]) => inner.write(t),
+      delete: (t: RelationTuple[]) => inner.delete(t),
+      read: (object: string, relation: string) => {
+        reads.push(`${object}#${relation}`);
+        return inner.read(object, relation);
+      }
+    };
+    const custom = new PermissionService(config, { tupleStore: adapter });
+    custom.writeRelations(['document:1#owner@user:alice']);
+
+    expect(custom.checkRelation('user:alice', 'owner', 'document:1')).toBe(true);
+    expect(reads).toContain('document:1#owner');
+  });
+
+  it('rejects tuples for undeclared types and relations', () => {
+    expect(() => rbac.writeRelations(['photo:1#viewer@user:alice'])).toThrow(/Unknown object type 'photo'/);
+    expect(() => rbac.writeRelations(['document:1#commenter@user:alice'])).toThrow(/Unknown relation 'commenter'/);
+    expect(() => rbac.writeRelations(['document:1#viewer@group:eng#admin'])).toThrow(/Unknown userset/);
+  });
+
+  it('rejects invalid relation definitions', () => {
+    expect(() => new PermissionService({
+      ...config,
+      relations: { document: { resource: 'docs.document', relations: { viewer: { permissions: ['docs.folder:read'] } } } }
+    })).toThrow(/invalid permission 'docs.folder:read'/);
+    expect(() => new PermissionService({
+      ...config,
+      relations: { document: { resource: 'docs.document', relations: { viewer: { includes: ['editor'] } } } }
+    })).toThrow(/undefined relation 'editor'/);
+    expect(() => new PermissionService({
+      ...config,
+      relations: { document: { resource: 'docs.pages', relations: {} } }
+    })).toThrow(/unknown resource 'docs.pages'/);
+  });
+});
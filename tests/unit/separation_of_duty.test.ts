@@ -0,0 +1,101 @@
+/**
+ * Separation-of-duty tests.
+ * Covers: static checks of roles through inheritance, constraint validation,
+ * dynamic enforcement at check time, explanations, subjects and groups,
+ * and hot reload.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { RBACConfig } from '../../src/types';
+
+const config: RBACConfig = {
+  modules: { payments: ['transfers', 'approvals'], reports: ['finance'] },
+  roles: {
+    payments_creator: { id: 'payments_creator', name: 'Creator', permissions: ['payments.transfers:create'] },
+    payments_approver: { id: 'payments_approver', name: 'Approver', permissions: ['payments.approvals:update'] },
+    analyst: { id: 'analyst', name: 'Analyst', permissions: ['reports:read'] },
+    auditor: { id: 'auditor', name: 'Auditor', permissions: ['payments:read'] }
+  },
+  constraints: [
+    { name: 'maker-checker', kind: 'mutuallyExclusiveRoles', roles: ['payments_creator', 'payments_approver'] },
+    { name: 'no-self-approval', kind: 'exclusivePermissions', permissions: ['payments.transfers:create', 'payments.approvals:update'] },
+    { name: 'least-privilege', kind: 'maxRoles', max: 2 }
+  ]
+};
+
+const withRoles = (roles: RBACConfig['roles'], constraints = config.constraints) =>
+  new PermissionService({ ...config, roles: { ...config.roles, ...roles }, constraints });
+
+describe('Separation of duty', () => {
+  const rbac = new PermissionService(config);
+
+  it('rejects roles that inherit mutually exclusive roles', () => {
+    expect(() => withRoles({
+      superuser: { id: 'superuser', name: 'Superuser', permissions: [], inherits: ['payments_creator', 'payments_approver'] }
+    })).toThrow("Role 'superuser' violates separation-of-duty constraint 'maker-checker': it holds roles 'payments_creator', 'payments_approver' together.");
+  });
+
+  it('rejects roles holding exclusive permissions', () => {
+    expect(() => withRoles({
+      treasurer: { id: 'treasurer', name: 'Treasurer', permissions: ['payments:update'] }
+    })).toThrow("Role 'treasurer' violates separation-of-duty constraint 'no-self-approval': it holds permissions 'payments.transfers:create', 'payments.approvals:update' together.");
+  });
+
+  it('validates constraints', () => {
+    expect(() => withRoles({}, [{ name: 'x', kind: 'mutuallyExclusiveRoles', roles: ['payments_creator', 'ghost'] }]))
+      .toThrow("Constraint 'x' references unknown role 'ghost'.");
+    expect(() => withRoles({}, [{ name: 'x', kind: 'exclusivePermissions', permissions: ['payments:read'] }]))
+      .toThrow("Constraint 'x' needs at least two distinct permissions.");
+    expect(() => withRoles({}, [{ name: 'x', kind: 'maxRoles', max: 0 }]))
+      .toThrow("Constraint 'x' must set max to a positive integer.");
+    expect(() => withRoles({}, [{ name: 'x', kind: 'maxRoles', max: 1 }, { name: 'x', kind: 'maxRoles', max: 2 }]))
+      .toThrow("Duplicate separation-of-duty constraint 'x'.");
+  });
+
+  it('allows permission sets that respect every constraint', () => {
+    expect(rbac.hasPermission(['payments_creator', 'analyst'], 'payments.transfers:create')).toBe(true);
+  });
+
+  it('denies every check from a violating permission set', () => {
+    expect(rbac.hasPermission(['payments_creator', 'payments_approver'], 'payments.transfers:create')).toBe(false);
+    expect(rbac.hasPermission(['payments_creator', 'payments_approver'], 'payments:read')).toBe(false);
+    expect(rbac.hasPermission(['analyst', 'auditor', 'payments_creator'], 'reports:read')).toBe(false);
+  });
+
+  it('explains violations', () => {
+    const result = rbac.checkPermissionDetailed(['role:payments_creator', 'payments.approvals:update'], 'payments:read');
+    expect(result.allowed).toBe(false);
+    expect(result.violation).toEqual({
+      constraint: 'no-self-approval',
+      kind: 'exclusivePermissions',
+      held: ['payments.transfers:create', 'payments.approvals:update']
+    });
+    expect(result.reason).toBe(
+      "Denied by separation-of-duty constraint 'no-self-approval': the user holds permissions 'payments.transfers:create', 'payments.approvals:update' together."
+    );
+
+    const tooMany = rbac.checkPermissionDetailed(['analyst', 'auditor', 'payments_creator'], 'reports:read');
+    expect(tooMany.reason).toContain("holds 3 roles ('analyst', 'auditor', 'payments_creator')");
+  });
+
+  it('rejects subjects violating constraints, through their groups', () => {
+    const service = new PermissionService(config);
+    service.saveSubject({ id: 'makers', type: 'group', roles: ['payments_creator'] });
+    service.saveSubject({ id: 'alice', type: 'user', roles: ['analyst'], groups: ['makers'] });
+
+    expect(() => service.assignRole('alice', 'payments_approver'))
+      .toThrow("Subject 'alice' violates separation-of-duty constraint 'maker-checker': it holds roles 'payments_creator', 'payments_approver' together.");
+    expect(() => service.saveSubject({ id: 'makers', type: 'group', roles: ['payments_creator', 'auditor'] }))
+      .toThrow(/Subject 'alice' violates separation-of-duty constraint 'least-privilege'/);
+    expect(() => service.assignRole('alice', 'payments_approver', { validFrom: '2030-01-01T00:00:00Z' }))
+      .toThrow(/maker-checker/);
+    expect(service.check('alice', 'payments.transfers:create')).toBe(true);
+  });
+
+  it('applies new constraints on hot reload', () => {
+    const service = new PermissionService({ ...config, constraints: [] });
+    expect(service.hasPermission(['payments_creator', 'payments_approver'], 'payments.transfers:create')).toBe(true);
+    service.updateConfig(config);
+    expect(service.hasPermission(['payments_creator', 'payments_approver'], 'payments.transfers:create')).toBe(false);
+  });
+});
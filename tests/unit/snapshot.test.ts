@@ -0,0 +1,120 @@
+/**
+ * Compiled policy snapshot tests.
+ * Covers: JSON and binary round-trips, conditional grants and denies surviving a
+ * reload, and rejection of mismatched configs (including validity windows), versions and
+ * predicates.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { RBACConfig, EnrichedContext, PermissionServiceOptions } from '../../src/types';
+
+const config: RBACConfig = {
+  modules: { posts: ['draft', 'published'], store: ['orders'] },
+  roles: {
+    viewer: { id: 'viewer', name: 'Viewer', permissions: ['*:read'] },
+    editor: {
+      id: 'editor',
+      name: 'Editor',
+      permissions: ['posts:delete', { deny: 'posts.published:delete' }],
+      inherits: ['viewer']
+    },
+    author: {
+      id: 'author',
+      name: 'Author',
+      permissions: [{ permission: 'store.orders:update', when: 'owner' }]
+    }
+  }
+};
+
+const owner = (ctx: EnrichedContext) =>
+  (ctx.resource as { ownerId?: string } | undefined)?.ownerId === ctx.userId;
+const options: PermissionServiceOptions = { predicates: { owner } };
+
+describe('Policy snapshots', () => {
+  const original = new PermissionService(config, options);
+
+  const expectSameDecisions = (loaded: PermissionService) => {
+    const ownCtx: EnrichedContext = { userId: 'u1', resource: { ownerId: 'u1' } };
+    const otherCtx: EnrichedContext = { userId: 'u1', resource: { ownerId: 'u2' } };
+
+    expect(loaded.hasPermission(['editor'], 'posts.draft:delete')).toBe(true);
+    expect(loaded.hasPermission(['editor'], 'posts.published:delete')).toBe(false);
+    expect(loaded.hasPermission(['editor'], 'store.orders:read')).toBe(true);
+    expect(loaded.hasPermission(['author'], 'store.orders:read', ownCtx)).toBe(true);
+    expect(loaded.hasPermission(['author'], 'store.orders:read', otherCtx)).toBe(false);
+    expect(loaded.can.createStoreOrders(['store:update'])).toBe(true);
+    expect(loaded.getStats()).toEqual(original.getStats());
+    expect(loaded.whatDoesPermissionGrant('role:editor')).toEqual(original.whatDoesPermissionGrant('role:editor'));
+    expect(loaded.checkPermissionDetailed(['editor'], 'posts:delete')).toEqual(
+      original.checkPermissionDetailed(['editor'], 'posts:delete')
+    );
+  };
+
+  it('round-trips through JSON', () => {
+    const snapshot = JSON.parse(JSON.stringify(original.compile()));
+    expect(snapshot.version).toBe(1);
+    expect(snapshot.configHash).toMatch(/^[0-9a-f]{64}$/);
+
+    expectSameDecisions(PermissionService.fromSnapshot(config, snapshot, options));
+  });
+
+  it('accepts a JSON string', () => {
+    const json = JSON.stringify(original.compile({ format: 'json' }));
+    expectSameDecisions(PermissionService.fromSnapshot(config, json, options));
+  });
+
+  it('round-trips through the binary encoding', () => {
+    const buffer = original.compile({ format: 'binary' });
+    expect(Buffer.isBuffer(buffer)).toBe(true);
+    expect(buffer.length).toBeLessThan(JSON.stringify(original.compile()).length);
+
+    expectSameDecisions(PermissionService.fromSnapshot(config, buffer, options));
+  });
+
+  it('hashes configs independently of key order', () => {
+    const reordered: RBACConfig = { roles: config.roles, modules: { store: ['orders'], posts: ['draft', 'published'] } };
+    expect(() => PermissionService.fromSnapshot(reordered, original.compile(), options)).not.toThrow();
+  });
+
+  it('rejects a snapshot compiled from a different config', () => {
+    const changed: RBACConfig = { ...config, modules: { ...config.modules, users: ['profile'] } };
+    expect(() => PermissionService.fromSnapshot(changed, original.compile(), options)).toThrow(/config hash mismatch/);
+    expect(() => PermissionService.fromSnapshot(changed, original.compile({ format: 'binary' }), options)).toThrow(
+      /config hash mismatch/
+    );
+  });
+
+  it('rejects a snapshot compiled with another validity window', () => {
+    const windowed = (expiresAt: Date): RBACConfig => ({
+      ...config,
+      roles: { ...config.roles, temp: { id: 'temp', name: 'Temp', permissions: [{ permission: 'posts:update', expiresAt }] } }
+    });
+    const stale = windowed(new Date('2026-01-01T00:00:00Z'));
+    const current = windowed(new Date('2027-01-01T00:00:00Z'));
+    const snapshot = new PermissionService(stale, options).compile();
+
+    expect(() => PermissionService.fromSnapshot(current, snapshot, options)).toThrow(/config hash mismatch/);
+    expect(new PermissionService(stale, options).getConfigVersion()).not.toBe(
+      new PermissionService(current, options).getConfigVersion()
+    );
+    const fresh = new PermissionService(current, options).compile();
+    expect(() => PermissionService.fromSnapshot(windowed(new Date('2027-01-01T00:00:00Z')), fresh, options)).not.toThrow();
+  });
+
+  it('rejects a snapshot with another format version', () => {
+    const snapshot = { ...original.compile(), version: 99 };
+    expect(() => PermissionService.fromSnapshot(config, snapshot, options)).toThrow(/Unsupported policy snapshot version 99/);
+
+    const buffer = original.compile({ format: 'binary' });
+    buffer.writeUInt32LE(99, 4);
+    expect(() => PermissionService.fromSnapshot(config, buffer, options)).toThrow(/Unsupported policy snapshot version 99/);
+  });
+
+  it('rejects buffers that are not snapshots', () => {
+    expect(() => PermissionService.fromSnapshot(config, Buffer.from('nope'), options)).toThrow(/Not a policy snapshot/);
+  });
+
+  it('rejects a snapshot whose predicates are not registered', () => {
+    expect(() => PermissionService.fromSnapshot(config, original.compile())).toThrow(/unknown predicate 'owner'/);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Subject and role-assignment tests.
+ * Covers: check() by subject ID, group membership (nested), direct grants,
+ * assign/revoke, validation, relation subjects, the JSON file store and
+ * role IDs in getEffectivePermissions.
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PermissionService } from '../../src/core/permission.service';
+import { JsonFileAssignmentStore } from '../../src/core/assignment.store';
+import { RBACConfig } from '../../src/types';
+
+const config: RBACConfig = {
+  modules: { posts: ['content', 'comments'], billing: ['invoices'] },
+  roles: {
+    viewer: { id: 'viewer', name: 'Viewer', permissions: ['posts:read'] },
+    editor: { id: 'editor', name: 'Editor', permissions: ['posts:update'], inherits: ['viewer'] },
+    accountant: { id: 'accountant', name: 'Accountant', permissions: ['billing:read'] }
+  },
+  relations: {
+    content: { resource: 'posts.content', relations: { owner: { permissions: ['posts.content:update'] } } }
+  }
+};
+
+describe('Subjects and role assignments', () => {
+  const build = () => {
+    const rbac = new PermissionService(config);
+    rbac.saveSubject({ id: 'staff', type: 'group', roles: ['viewer'] });
+    rbac.saveSubject({ id: 'finance', type: 'group', roles: ['accountant'], groups: ['staff'] });
+    rbac.saveSubject({ id: 'alice', type: 'user', roles: ['editor'] });
+    rbac.saveSubject({ id: 'bob', type: 'user', groups: ['finance'] });
+    rbac.saveSubject({ id: 'ci-bot', type: 'service', permissions: ['posts.comments:create'] });
+    return rbac;
+  };
+
+  it('checks a subject by ID through its roles', () => {
+    const rbac = build();
+    expect(rbac.check('alice', 'posts.content:update')).toBe(true);
+    expect(rbac.check('alice', 'billing:read')).toBe(false);
+  });
+
+  it('resolves roles through nested groups', () => {
+    const rbac = build();
+    expect(rbac.check('bob', 'billing.invoices:read')).toBe(true);
+    expect(rbac.check('bob', 'posts.comments:read')).toBe(true);
+    expect(rbac.check('bob', 'posts:update')).toBe(false);
+    expect(rbac.resolveSubject('bob').sort()).toEqual(['role:accountant', 'role:viewer']);
+  });
+
+  it('applies direct grants', () => {
+    const rbac = build();
+    expect(rbac.check('ci-bot', 'posts.comments:read')).toBe(true);
+    expect(rbac.check('ci-bot', 'posts.content:read')).toBe(false);
+  });
+
+  it('denies unknown subjects', () => {
+    const rbac = build();
+    expect(rbac.check('mallory', 'posts:read')).toBe(false);
+    expect(rbac.checkDetailed('mallory', 'posts:read').allowed).toBe(false);
+  });
+
+  it('assigns and revokes roles', () => {
+    const rbac = build();
+    rbac.assignRole('bob', 'editor');
+    expect(rbac.check('bob', 'posts:update')).toBe(true);
+    rbac.revokeRole('bob', 'editor');
+    expect(rbac.check('bob', 'posts:update')).toBe(false);
+    expect(() => rbac.assignRole('mallory', 'editor')).toThrow("Unknown subject 'mallory'.");
+  });
+
+  it('validates roles, permissions and groups', () => {
+    const rbac = build();
+    expect(() => rbac.saveSubject({ id: 'x', type: 'user', roles: ['admin'] }))
+      .toThrow("Unknown role 'admin' assigned to subject 'x'.");
+    expect(() => rbac.saveSubject({ id: 'x', type: 'user', permissions: ['posts:approve'] }))
+      .toThrow(/Invalid permission 'posts:approve' granted to subject 'x'/);
+    expect(() => rbac.saveSubject({ id: 'x', type: 'user', groups: ['alice'] }))
+      .toThrow("Subject 'x' is a member of 'alice', which is not a stored group.");
+  });
+
+  it('only removes groups without members', () => {
+    const rbac = build();
+    expect(() => rbac.removeSubject('finance')).toThrow("Group 'finance' still has members: bob.");
+    rbac.removeSubject('bob');
+    rbac.removeSubject('finance');
+    expect(rbac.getSubject('finance')).toBeUndefined();
+  });
+
+  it('uses the subject for relation checks', () => {
+    const rbac = build();
+    rbac.writeRelations(['content:1#owner@user:bob']);
+    expect(rbac.check('bob', 'posts.content:update#1')).toBe(true);
+    expect(rbac.checkDetailed('bob', 'posts.content:update#1').matchedVia?.path).toBe('relation');
+  });
+
+  it('maps bare role IDs in getEffectivePermissions', () => {
+    const rbac = new PermissionService(config);
+    const effective = rbac.getEffectivePermissions(['editor']);
+    expect(effective.has('posts.content:update')).toBe(true);
+    expect(effective.has('posts:read')).toBe(true);
+  });
+});
+
+describe('JsonFileAssignmentStore', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'authz-assignments-'));
+  });
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists subjects across instances', () => {
+    const file = join(dir, 'subjects.json');
+    const first = new PermissionService(config, { assignmentStore: new JsonFileAssignmentStore(file) });
+    first.saveSubject({ id: 'alice', type: 'user', roles: ['editor'] });
+
+    expect(JSON.parse(readFileSync(file, 'utf8')).subjects).toHaveLength(1);
+
+    const second = new PermissionService(config, { assignmentStore: new JsonFileAssignmentStore(file) });
+    expect(second.check('alice', 'posts:update')).toBe(true);
+  });
+
+  it('rejects malformed files', () => {
+    const file = join(dir, 'bad.json');
+    writeFileSync(file, '[]');
+    expect(() => new JsonFileAssignmentStore(file)).toThrow(/Invalid assignment file/);
+  });
+});
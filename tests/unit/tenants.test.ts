@@ -0,0 +1,99 @@
+/**
+ * Multi-tenant override tests.
+ * Covers: role customization, tenant-only roles, disabled modules, fallback to the
+ * base config, validation, and tenant layers following base config updates.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { RBACConfig, EnrichedContext } from '../../src/types';
+
+const config: RBACConfig = {
+  modules: { posts: ['draft', 'published'], billing: ['invoices'] },
+  roles: {
+    viewer: { id: 'viewer', name: 'Viewer', permissions: ['*:read'] },
+    editor: { id: 'editor', name: 'Editor', permissions: ['posts:update', 'billing:read'], inherits: ['viewer'] }
+  }
+};
+
+const acme: EnrichedContext = { organizationId: 'acme' };
+const globex: EnrichedContext = { organizationId: 'globex' };
+const unknownOrg: EnrichedContext = { organizationId: 'initech' };
+
+describe('Multi-tenant overrides', () => {
+  let rbac: PermissionService;
+
+  beforeEach(() => {
+    rbac = new PermissionService(config, {
+      tenants: {
+        acme: {
+          roles: {
+            editor: { id: 'editor', name: 'Editor', permissions: ['posts:delete'], inherits: ['viewer'] },
+            auditor: { id: 'auditor', name: 'Auditor', permissions: ['billing:read'] }
+          }
+        },
+        globex: { disabledModules: ['billing'] }
+      }
+    });
+  });
+
+  it('lets a tenant customize a base role', () => {
+    expect(rbac.hasPermission(['editor'], 'posts.draft:delete', acme)).toBe(true);
+    expect(rbac.hasPermission(['editor'], 'posts.draft:delete')).toBe(false);
+  });
+
+  it('lets a tenant add its own roles', () => {
+    expect(rbac.hasPermission(['auditor'], 'billing.invoices:read', acme)).toBe(true);
+    expect(rbac.hasPermission(['auditor'], 'billing.invoices:read')).toBe(false);
+  });
+
+  it('hides disabled modules from the tenant', () => {
+    expect(rbac.hasPermission(['editor'], 'billing.invoices:read', globex)).toBe(false);
+    expect(rbac.hasPermission(['editor'], 'posts.draft:update', globex)).toBe(true);
+    expect(rbac.getTenantConfig('globex').modules.billing).toBeUndefined();
+    expect(rbac.hasPermission(['editor'], 'billing.invoices:read')).toBe(true);
+  });
+
+  it('falls back to the base config for unknown or missing organizations', () => {
+    expect(rbac.hasPermission(['editor'], 'billing:read', unknownOrg)).toBe(true);
+    expect(rbac.hasPermission(['editor'], 'posts:delete', unknownOrg)).toBe(false);
+    expect(rbac.getTenantConfig('initech')).toBe(config);
+  });
+
+  it('routes fluent and detailed checks through the tenant layer', () => {
+    expect(rbac.can.deletePosts(['editor'], acme)).toBe(true);
+    expect(rbac.can.deletePosts(['editor'])).toBe(false);
+    expect(rbac.checkPermissionDetailed(['auditor'], 'billing:read', acme).matchedVia?.userPermission).toBe('role:auditor');
+  });
+
+  it('registers and removes tenants at runtime', () => {
+    rbac.setTenant('initech', { roles: { viewer: { id: 'viewer', name: 'Viewer', permissions: [] } } });
+    expect(rbac.hasPermission(['viewer'], 'posts:read', unknownOrg)).toBe(false);
+
+    rbac.removeTenant('initech');
+    expect(rbac.hasPermission(['viewer'], 'posts:read', unknownOrg)).toBe(true);
+  });
+
+  it('validates tenant overrides like base roles', () => {
+    expect(() => rbac.setTenant('bad', {
+      roles: { broken: { id: 'broken', name: 'Broken', permissions: ['posts:publish'] } }
+    })).toThrow(/Tenant 'bad': Invalid permission 'posts:publish'/);
+    expect(() => rbac.setTenant('bad', { disabledModules: ['ghost'] })).toThrow(/unknown module 'ghost'/);
+    expect(() => new PermissionService(config, {
+      tenants: { bad: { disabledModules: ['billing'], roles: { payer: { id: 'payer', name: 'Payer', permissions: ['billing:update'] } } } }
+    })).toThrow(/Tenant 'bad': Invalid permission 'billing:update'/);
+  });
+
+  it('rebuilds tenant layers when the base config changes', () => {
+    rbac.addModule('store', ['orders']);
+    expect(rbac.hasPermission(['editor'], 'store.orders:read', acme)).toBe(true);
+    expect(rbac.hasPermission(['auditor'], 'billing:read', acme)).toBe(true);
+  });
+
+  it('rejects base updates that break a tenant, keeping the current policies', () => {
+    // acme's editor inherits viewer, so the base cannot drop it
+    expect(() => rbac.updateConfig({ ...config, roles: { editor: { ...config.roles!.editor, inherits: [] } } })).toThrow(
+      /Tenant 'acme': Role 'editor' inherits from non-existent role 'viewer'/
+    );
+    expect(rbac.hasPermission(['viewer'], 'posts:read')).toBe(true);
+  });
+});
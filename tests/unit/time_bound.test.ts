@@ -0,0 +1,155 @@
+/**
+ * Time-bound grant tests.
+ * Covers: validFrom/expiresAt on role grants and role assignments, the
+ * context timestamp, "expired" explanations, getExpiringGrants, validation
+ * and snapshots.
+ */
+
+import { PermissionService } from '../../src/core/permission.service';
+import { RBACConfig } from '../../src/types';
+
+const at = (iso: string) => ({ timestamp: new Date(iso) });
+
+const config: RBACConfig = {
+  modules: { posts: ['content', 'comments'] },
+  roles: {
+    viewer: { id: 'viewer', name: 'Viewer', permissions: ['posts:read'] },
+    editor: { id: 'editor', name: 'Editor', permissions: ['posts:update'] },
+    moderator: {
+      id: 'moderator',
+      name: 'Moderator',
+      permissions: [
+        'posts:read',
+        { permission: 'posts:delete', validFrom: '2026-03-01T00:00:00Z' },
+        { permission: 'posts.comments:update#7', expiresAt: '2026-02-01T00:00:00Z' }
+      ]
+    },
+    launch: {
+      id: 'launch',
+      name: 'Launch',
+      permissions: [
+        { permission: 'posts.content:create', validFrom: '2026-01-01T00:00:00Z', expiresAt: new Date('2026-01-08T00:00:00Z') }
+      ]
+    },
+    deputy: { id: 'deputy', name: 'Deputy', permissions: [], inherits: ['moderator'] }
+  }
+};
+
+describe('Time-bound grants', () => {
+  const rbac = new PermissionService(config);
+
+  it('applies a grant only from validFrom', () => {
+    expect(rbac.hasPermission(['moderator'], 'posts.content:delete', at('2026-02-15T00:00:00Z'))).toBe(false);
+    expect(rbac.hasPermission(['moderator'], 'posts.content:delete', at('2026-03-01T00:00:00Z'))).toBe(true);
+    // The action hierarchy still applies inside the window
+    expect(rbac.hasPermission(['moderator'], 'posts.content:update', at('2026-03-02T00:00:00Z'))).toBe(true);
+  });
+
+  it('applies a grant only until expiresAt', () => {
+    expect(rbac.hasPermission(['launch'], 'posts.content:create', at('2026-01-07T23:59:59Z'))).toBe(true);
+    expect(rbac.hasPermission(['launch'], 'posts.content:create', at('2026-01-08T00:00:00Z'))).toBe(false);
+    expect(rbac.hasPermission(['launch'], 'posts.content:create', at('2025-12-31T00:00:00Z'))).toBe(false);
+  });
+
+  it('supports time-bound instance grants and inheritance', () => {
+    expect(rbac.hasPermission(['deputy'], 'posts.comments:update#7', at('2026-01-15T00:00:00Z'))).toBe(true);
+    expect(rbac.hasPermission(['deputy'], 'posts.comments:update#7', at('2026-02-15T00:00:00Z'))).toBe(false);
+  });
+
+  it('reports expired grants in checkPermissionDetailed', () => {
+    const result = rbac.checkPermissionDetailed(['launch'], 'posts.content:create', at('2026-02-01T00:00:00Z'));
+    expect(result.allowed).toBe(false);
+    expect(result.expired).toEqual([{
+      role: 'launch',
+      permission: 'posts.content:create',
+      state: 'expired',
+      validFrom: '2026-01-01T00:00:00.000Z',
+      expiresAt: '2026-01-08T00:00:00.000Z'
+    }]);
+    expect(result.reason).toBe(
+      "Denied. Time-bound grants are not valid now: ['posts.content:create' on role 'launch' expired at 2026-01-08T00:00:00.000Z]."
+    );
+
+    const early = rbac.checkPermissionDetailed(['moderator'], 'posts:delete', at('2026-02-01T00:00:00Z'));
+    expect(early.expired?.[0].state).toBe('notYetValid');
+  });
+
+  it('reports the expiry of a matched grant', () => {
+    const result = rbac.checkPermissionDetailed(['launch'], 'posts.content:read', at('2026-01-02T00:00:00Z'));
+    expect(result.allowed).toBe(true);
+    expect(result.matchedVia?.expiresAt).toBe('2026-01-08T00:00:00.000Z');
+  });
+
+  it('rejects invalid windows', () => {
+    const withEntry = (entry: object) => new PermissionService({
+      modules: config.modules,
+      roles: { editor: config.roles!.editor, bad: { id: 'bad', name: 'Bad', permissions: [entry as never] } }
+    });
+    expect(() => withEntry({ permission: 'posts:read', expiresAt: 'next week' }))
+      .toThrow("Invalid expiresAt 'next week' on permission 'posts:read'. Use a Date or an ISO 8601 string.");
+    expect(() => withEntry({ permission: 'posts:read', validFrom: '2026-02-01', expiresAt: '2026-01-01' }))
+      .toThrow("Invalid window on permission 'posts:read': validFrom must be before expiresAt.");
+    expect(() => withEntry({ permission: 'role:editor', expiresAt: '2099-01-01T00:00:00Z' })).toThrow(
+      "Role 'bad' cannot attach a validity window to a role reference 'role:editor'. Windows belong on concrete permissions or role assignments."
+    );
+  });
+
+  it('survives snapshots', () => {
+    const restored = PermissionService.fromSnapshot(config, rbac.compile({ format: 'binary' }));
+    expect(restored.hasPermission(['launch'], 'posts.content:create', at('2026-01-02T00:00:00Z'))).toBe(true);
+    expect(restored.hasPermission(['launch'], 'posts.content:create', at('2026-01-09T00:00:00Z'))).toBe(false);
+    expect(restored.hasPermission(['deputy'], 'posts.comments:update#7', at('2026-01-15T00:00:00Z'))).toBe(true);
+  });
+});
+
+describe('Time-bound role assignments', () => {
+  const build = () => {
+    const rbac = new PermissionService(config);
+    rbac.saveSubject({
+      id: 'contractor',
+      type: 'user',
+      roles: ['viewer', { role: 'editor', expiresAt: '2026-06-30T00:00:00Z' }]
+    });
+    return rbac;
+  };
+
+  it('drops expired assignments', () => {
+    const rbac = build();
+    expect(rbac.check('contractor', 'posts:update', at('2026-06-01T00:00:00Z'))).toBe(true);
+    expect(rbac.check('contractor', 'posts:update', at('2026-07-01T00:00:00Z'))).toBe(false);
+    expect(rbac.check('contractor', 'posts:read', at('2026-07-01T00:00:00Z'))).toBe(true);
+  });
+
+  it('reports expired assignments in checkDetailed', () => {
+    const result = build().checkDetailed('contractor', 'posts:update', at('2026-07-01T00:00:00Z'));
+    expect(result.allowed).toBe(false);
+    expect(result.expired).toEqual([{
+      role: 'editor',
+      subjectId: 'contractor',
+      state: 'expired',
+      expiresAt: '2026-06-30T00:00:00.000Z'
+    }]);
+    expect(result.reason).toContain("role 'editor' assigned to 'contractor' expired at 2026-06-30T00:00:00.000Z");
+  });
+
+  it('assigns roles with a window', () => {
+    const rbac = build();
+    rbac.assignRole('contractor', 'moderator', { validFrom: '2026-08-01T00:00:00Z' });
+    expect(rbac.check('contractor', 'posts.comments:read', at('2026-07-15T00:00:00Z'))).toBe(true);
+    expect(rbac.resolveSubject('contractor', new Date('2026-07-15T00:00:00Z'))).not.toContain('role:moderator');
+    expect(rbac.resolveSubject('contractor', new Date('2026-08-15T00:00:00Z'))).toContain('role:moderator');
+    expect(() => rbac.assignRole('contractor', 'editor', { expiresAt: 'soon' })).toThrow(/Invalid expiresAt 'soon'/);
+  });
+
+  it('lists grants and assignments expiring soon', () => {
+    const rbac = build();
+    const day = 24 * 60 * 60 * 1000;
+    expect(rbac.getExpiringGrants(10 * day, new Date('2026-01-01T00:00:00Z'))).toEqual([
+      { role: 'launch', permission: 'posts.content:create', expiresAt: '2026-01-08T00:00:00.000Z' }
+    ]);
+    expect(rbac.getExpiringGrants(200 * day, new Date('2026-01-20T00:00:00Z'))).toEqual([
+      { role: 'moderator', permission: 'posts.comments:update#7', expiresAt: '2026-02-01T00:00:00.000Z' },
+      { role: 'editor', subjectId: 'contractor', expiresAt: '2026-06-30T00:00:00.000Z' }
+    ]);
+  });
+});